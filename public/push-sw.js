@@ -0,0 +1,42 @@
+// Handlers de Web Push importados pelo service worker gerado pelo VitePWA.
+// O conteúdo vem da função send-push: { title, body, url, icon, tag }
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    data = { title: "Vale Notícias", body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Vale Notícias", {
+      body: data.body,
+      icon: data.icon,
+      badge: data.icon,
+      tag: data.tag,
+      data: { url: data.url || "/notify" },
+    })
+  );
+});
+
+// Abre a página da notificação, reaproveitando uma aba do app se houver
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/notify", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client
+          .focus()
+          .then((focused) => focused.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -7,9 +7,12 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "./components/ThemeProvider";
 import AuthWrapper from "./components/AuthWrapper";
+import AdminRoute from "./components/AdminRoute";
 import Index from "./pages/Index";
 import Events from "./pages/Events";
+import EventDetails from "./pages/EventDetails";
 import Places from "./pages/Places";
+import PlaceDetails from "./pages/PlaceDetails";
 import Products from "./pages/Products";
 import ProductDetails from "./pages/ProductDetails";
 import ProductForm from "./pages/ProductForm";
@@ -23,12 +26,18 @@ import AdminEvents from "./pages/AdminEvents";
 import AdminNews from "./pages/AdminNews";
 import AdminCategories from "./pages/AdminCategories";
 import AdminSistema from "./pages/AdminSistema";
+import AdminReports from "./pages/AdminReports";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound"; 
 import ResetPassword from "./pages/ResetPassword";
 import UpdatePassword from "./pages/UpdatePassword";
 import UserProducts from "./pages/UserProducts";
 import NewsDetails from "./pages/NewsDetails";
+import Chats from "./pages/Chats";
+import ChatRoom from "./pages/ChatRoom";
+import Saved from "./pages/Saved";
+import PublicProfile from "./pages/PublicProfile";
+import NotificationPreferences from "./pages/NotificationPreferences";
 
 const queryClient = new QueryClient();
 
@@ -45,11 +54,15 @@ const App: React.FC = () => {
                 <Routes>
                   <Route path="/" element={<Index />} />
                   <Route path="/eventos" element={<Events />} />
+                  <Route path="/eventos/:id" element={<EventDetails />} />
                   <Route path="/lugares" element={<Places />} />
+                  <Route path="/lugares/:id" element={<PlaceDetails />} />
                   <Route path="/products" element={<Products />} />
                   <Route path="/product/:id" element={<ProductDetails />} />
                   <Route path="/products/new" element={<ProductForm />} />
+                  <Route path="/products/:id/edit" element={<ProductForm />} />
                   <Route path="/notify" element={<Notify />} />
+                  <Route path="/notify/preferencias" element={<NotificationPreferences />} />
                   <Route path="/login" element={<Login />} />
                   <Route path="/signup" element={<SignUp />} />
                   <Route path="/perfil" element={<Profile />} />
@@ -57,14 +70,19 @@ const App: React.FC = () => {
                   <Route path="/reset-password" element={<ResetPassword />} />
                   <Route path="/update-password" element={<UpdatePassword />} />
                   <Route path="/admin" element={<Admin />}>    
-                    <Route path="lugares" element={<AdminPlaces />} />
-                    <Route path="eventos" element={<AdminEvents />} />
-                    <Route path="noticias" element={<AdminNews />} />
-                    <Route path="categorias" element={<AdminCategories />} />
-                    <Route path="sistema" element={<AdminSistema />} />
+                    <Route path="lugares" element={<AdminRoute section="lugares"><AdminPlaces /></AdminRoute>} />
+                    <Route path="eventos" element={<AdminRoute section="eventos"><AdminEvents /></AdminRoute>} />
+                    <Route path="noticias" element={<AdminRoute section="noticias"><AdminNews /></AdminRoute>} />
+                    <Route path="categorias" element={<AdminRoute section="categorias"><AdminCategories /></AdminRoute>} />
+                    <Route path="denuncias" element={<AdminRoute section="denuncias"><AdminReports /></AdminRoute>} />
+                    <Route path="sistema" element={<AdminRoute section="sistema"><AdminSistema /></AdminRoute>} />
                   </Route> 
                   <Route path="/user-products" element={<UserProducts />} />
+                  <Route path="/salvos" element={<Saved />} />
+                  <Route path="/u/:username" element={<PublicProfile />} />
                   <Route path="/noticias/:id" element={<NewsDetails />} />
+                  <Route path="/mensagens" element={<Chats />} />
+                  <Route path="/mensagens/:id" element={<ChatRoom />} />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
               </AuthWrapper>
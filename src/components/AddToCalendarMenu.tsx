@@ -0,0 +1,50 @@
+import { CalendarPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getEventIcsUrl, getGoogleCalendarUrl } from "@/utils/eventCalendar";
+
+interface AddToCalendarMenuProps {
+  event: {
+    id: string;
+    title: string;
+    description?: string | null;
+    event_date: string;
+    event_time: string;
+    end_time: string;
+    location?: string | null;
+  };
+}
+
+export const AddToCalendarMenu = ({ event }: AddToCalendarMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        variant="secondary"
+        size="sm"
+        className="rounded-full hover:scale-105 transition-all duration-300 shadow-lg"
+      >
+        <CalendarPlus className="h-4 w-4 mr-2" />
+        Adicionar ao calendário
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem asChild>
+        <a href={getGoogleCalendarUrl(event)} target="_blank" rel="noopener noreferrer">
+          Google Agenda
+        </a>
+      </DropdownMenuItem>
+      <DropdownMenuItem asChild>
+        <a href={getEventIcsUrl(event.id)} download>
+          Apple, Outlook e outros (.ics)
+        </a>
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default AddToCalendarMenu;
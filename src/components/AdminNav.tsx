@@ -1,20 +1,28 @@
 
 import { Link, useLocation } from "react-router-dom";
 import { useSiteConfig } from "../hooks/useSiteConfig";
+import { useAdminAccess } from "../hooks/useAdminAccess";
+import type { AdminSection } from "../types/permissions";
 
 const AdminNav = () => {
   const { data: config, isLoading, isError } = useSiteConfig();
   const location = useLocation();
+  const { data: access, canAccess } = useAdminAccess();
 
-  const links = [
-    { path: "/admin/noticias", label: "Notícias" },
-    { path: "/admin/eventos", label: "Eventos" },
-    { path: "/admin/lugares", label: "Lugares" },
-    { path: "/admin/categorias", label: "Categorias" },
-    { path: "/admin/sistema", label: "Sistema" },
+  const allLinks: { path: string; label: string; section?: AdminSection }[] = [
+    { path: "/admin/noticias", label: "Notícias", section: "noticias" },
+    { path: "/admin/eventos", label: "Eventos", section: "eventos" },
+    { path: "/admin/lugares", label: "Lugares", section: "lugares" },
+    { path: "/admin/categorias", label: "Categorias", section: "categorias" },
+    { path: "/admin/denuncias", label: "Denúncias", section: "denuncias" },
+    { path: "/admin/sistema", label: "Sistema", section: "sistema" },
     { path: "/config", label: "Configurações" },
   ];
 
+  const links = allLinks.filter((link) =>
+    link.section ? canAccess(link.section) : access?.isAdmin
+  );
+
   if (isLoading) {
     return (
       <nav className="w-full border-b mt-16 h-12 animate-pulse bg-gray-200" />
@@ -0,0 +1,19 @@
+import { useAdminAccess } from "@/hooks/useAdminAccess";
+import Forbidden from "@/pages/Forbidden";
+import type { AdminSection } from "@/types/permissions";
+
+const AdminRoute = ({ section, children }: { section: AdminSection; children: React.ReactNode }) => {
+  const { canAccess, isLoading } = useAdminAccess();
+
+  if (isLoading) {
+    return <div>Carregando...</div>;
+  }
+
+  if (!canAccess(section)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminRoute;
@@ -1,18 +1,34 @@
 
 import { useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { SESSION_USER_QUERY_KEY } from "@/hooks/useSessionUser";
+import { getPushSubscription } from "@/utils/pushNotifications";
 
 const AuthWrapper = ({ children }: { children: React.ReactNode }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
+
+  useOnlineStatus();
 
   useEffect(() => {
     // Escuta mudanças no estado de autenticação
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        queryClient.setQueryData(SESSION_USER_QUERY_KEY, session?.user?.id ?? null);
+
         if (event === "SIGNED_OUT") {
+          // Sessão encerrada sem passar por signOut (ex.: expirou ou saiu em outra aba):
+          // o aparelho deixa de receber push; o registro órfão é apagado pela send-push
+          getPushSubscription()
+            .then((pushSubscription) => pushSubscription?.unsubscribe())
+            .catch((error) => console.error("Error unsubscribing from push:", error));
+
           // Limpa o cache e sessão
+          queryClient.clear();
           sessionStorage.clear();
           localStorage.removeItem("sb-cxnktrfpqjjkdfmiyhdz-auth-token");
           
@@ -32,7 +48,7 @@ const AuthWrapper = ({ children }: { children: React.ReactNode }) => {
     return () => {
       subscription.unsubscribe();
     };
-  }, [navigate]);
+  }, [navigate, queryClient]);
 
   return <>{children}</>;
 };
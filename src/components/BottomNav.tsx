@@ -1,11 +1,12 @@
 
-import { Home, Bell, User, Plus } from "lucide-react";
+import { Home, Bell, User, Plus, MessageCircle } from "lucide-react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useSiteConfig } from "../hooks/useSiteConfig";
 import { supabase } from "../integrations/supabase/client";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
-import { useQuery } from "@tanstack/react-query";
+import { useUnreadMessages } from "../hooks/useChats";
+import { useUnreadNotifications } from "../hooks/useNotifications";
 
 const BottomNav = () => {
   const location = useLocation();
@@ -27,26 +28,12 @@ const BottomNav = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const { data: unreadCount } = useQuery({
-    queryKey: ["unreadNotifications"],
-    queryFn: async () => {
-      if (!session) return 0;
-      
-      const { count, error } = await supabase
-        .from("notifications")
-        .select("*", { count: 'exact', head: true })
-        .eq("read", false);
-
-      if (error) throw error;
-      return count || 0;
-    },
-    enabled: !!session,
-    refetchInterval: 30000,
-  });
+  const { data: unreadCount = 0 } = useUnreadNotifications(session?.user?.id);
+  const { data: unreadMessages } = useUnreadMessages(session?.user?.id);
 
   const handleNavigation = (path: string, e: React.MouseEvent) => {
     e.preventDefault();
-    if (!session && (path === "/notify" || path === "/products/new")) {
+    if (!session && (path === "/notify" || path === "/products/new" || path === "/mensagens")) {
       toast.error("Você precisa fazer login para acessar esta área");
       navigate("/login");
       return;
@@ -109,7 +96,20 @@ const BottomNav = () => {
             <Bell className="h-6 w-6" strokeWidth={2} />
             {unreadCount > 0 && (
               <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center animate-pulse">
-                {unreadCount}
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </button>
+
+          <button
+            onClick={(e) => handleNavigation("/mensagens", e)}
+            className="flex items-center p-2 rounded-xl transition-all duration-300 hover:scale-105 relative"
+            style={getItemStyle(location.pathname.startsWith("/mensagens"))}
+          >
+            <MessageCircle className="h-6 w-6" strokeWidth={2} />
+            {unreadMessages > 0 && (
+              <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center animate-pulse">
+                {unreadMessages}
               </span>
             )}
           </button>
@@ -1,23 +1,32 @@
 
 import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Calendar, ChevronDown, ChevronUp, Clock, MapPin, ChevronLeft, ChevronRight, X, Timer, ExternalLink, Ticket } from "lucide-react";
+import { Calendar, ChevronDown, ChevronUp, Clock, MapPin, ChevronLeft, ChevronRight, X, Timer, ExternalLink, Ticket, Repeat } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { supabase } from "../integrations/supabase/client";
 import { toast } from "sonner";
 import type { Database } from "@/types/supabase";
+import type { Json } from "@/integrations/supabase/types";
+import { describeRecurrence, getNextOccurrence, parseRecurrence } from "@/utils/eventRecurrence";
+import { resolveMediaUrl } from "@/utils/mediaUrl";
+import FavoriteButton from "./FavoriteButton";
 
 type SiteConfig = Database['public']['Tables']['site_configuration']['Row'];
 
 interface EventCardProps {
+  id?: string;
   title: string;
   description: string;
   eventDate: string;
   eventTime: string;
   endTime: string;
+  // Regra de recorrência (ancorada em eventDate) e ocorrência específica a exibir
+  recurrence?: Json | null;
+  occurrenceDate?: string;
   image?: string;
   images?: string[];
   location?: string;
@@ -38,14 +47,18 @@ interface EventCardProps {
 type MediaItem = {
   type: "image" | "video";
   url: string;
+  isEmbed?: boolean;
 };
 
 const EventCard = ({
+  id,
   title,
   description,
   eventDate,
   eventTime,
   endTime,
+  recurrence,
+  occurrenceDate,
   images = [],
   location,
   mapsUrl,
@@ -65,20 +78,24 @@ const EventCard = ({
 
   // Combine all media into one array
   const allMedia: MediaItem[] = [
-    ...(images?.map(url => ({ type: "image" as const, url })) || []),
+    ...(images?.map(url => ({ type: "image" as const, url: resolveMediaUrl(url, "image").url })) || []),
     ...(video_urls?.map(url => {
-      const isYoutubeUrl = url.includes('youtube.com') || url.includes('youtu.be');
-      return { 
-        type: "video" as const, 
-        url: isYoutubeUrl ? url : url.replace('www.dropbox.com', 'dl.dropboxusercontent.com')
-      };
+      const media = resolveMediaUrl(url, "video");
+      return { type: "video" as const, url: media.url, isEmbed: media.provider === "youtube" };
     }) || [])
   ];
 
   const hasMultipleMedia = allMedia.length > 1;
   const currentMedia = allMedia[currentIndex];
 
-  const date = parseISO(eventDate);
+  // Eventos recorrentes exibem a próxima ocorrência que ainda não terminou
+  const recurrenceRule = parseRecurrence(recurrence);
+  const displayDate = occurrenceDate
+    || (recurrenceRule ? getNextOccurrence(eventDate, eventTime, endTime, recurrenceRule) : null)
+    || eventDate;
+  const recurrenceLabel = describeRecurrence(recurrenceRule);
+
+  const date = parseISO(displayDate);
   const formattedDate = format(date, "dd 'de' MMMM 'de' yyyy", { locale: ptBR });
 
   const formattedCreatedAt = createdAt 
@@ -103,7 +120,7 @@ const EventCard = ({
   useEffect(() => {
     const calculateTimeLeft = () => {
       try {
-        if (!eventDate || !eventTime || !date) {
+        if (!displayDate || !eventTime || !date) {
           setCountdown({ days: 0, hrs: 0, mins: 0, secs: 0, isExpired: true });
           return;
         }
@@ -116,6 +133,9 @@ const EventCard = ({
         
         const endDate = new Date(date);
         endDate.setHours(endHours, endMinutes, 0, 0);
+        if (endDate <= startDate) {
+          endDate.setDate(endDate.getDate() + 1);
+        }
         
         const now = new Date();
 
@@ -160,7 +180,7 @@ const EventCard = ({
     const timer = setInterval(calculateTimeLeft, 1000);
 
     return () => clearInterval(timer);
-  }, [eventDate, eventTime, endTime, date, eventStatus]);
+  }, [displayDate, eventTime, endTime, date, eventStatus]);
 
   const nextMedia = () => {
     setCurrentIndex((prev) => (prev + 1) % allMedia.length);
@@ -187,27 +207,16 @@ const EventCard = ({
     border: 'none'
   } : undefined;
 
-  const getYoutubeVideoId = (url: string) => {
-    if (url.includes('youtu.be')) {
-      return url.split('youtu.be/')[1];
-    }
-    const urlParams = new URLSearchParams(new URL(url).search);
-    return urlParams.get('v');
-  };
-
   const renderMedia = (mediaItem: MediaItem, isFullscreen: boolean = false) => {
     if (mediaItem.type === 'video') {
-      const isYoutubeUrl = mediaItem.url.includes('youtube.com') || mediaItem.url.includes('youtu.be');
-      
-      if (isYoutubeUrl) {
-        const videoId = getYoutubeVideoId(mediaItem.url);
+      if (mediaItem.isEmbed) {
         return (
           <div className={cn(
             "relative w-full h-48",
             isFullscreen && "h-[80vh]"
           )}>
             <iframe
-              src={`https://www.youtube.com/embed/${videoId}`}
+              src={mediaItem.url}
               allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
               allowFullScreen
               className="absolute inset-0 w-full h-full"
@@ -215,7 +224,7 @@ const EventCard = ({
           </div>
         );
       } else {
-        // For Dropbox videos
+        // For uploaded or Dropbox videos
         return (
           <div className={cn(
             "relative w-full h-48",
@@ -279,7 +288,12 @@ const EventCard = ({
         )}
 
         <div className="p-4">
-          <h3 className="mb-2 text-xl font-bold">{title}</h3>
+          <div className="mb-2 flex items-start justify-between gap-2">
+            <h3 className="text-xl font-bold">
+              {id ? <Link to={`/eventos/${id}`} className="hover:underline">{title}</Link> : title}
+            </h3>
+            {id && <FavoriteButton type="event" itemId={id} />}
+          </div>
           
           <div className="mb-3 flex flex-wrap gap-2 text-xs text-gray-600">
             <div className="flex items-center gap-1">
@@ -290,6 +304,12 @@ const EventCard = ({
               <Clock className="h-3 w-3" />
               <span>{eventTime} - {endTime}</span>
             </div>
+            {recurrenceLabel && (
+              <div className="flex items-center gap-1">
+                <Repeat className="h-3 w-3" />
+                <span>{recurrenceLabel}</span>
+              </div>
+            )}
             {location && (
               <div className="flex items-center gap-1">
                 <MapPin className="h-3 w-3" />
@@ -0,0 +1,53 @@
+import { Heart } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useSiteConfig } from "@/hooks/useSiteConfig";
+import { FAVORITE_LOGIN_REQUIRED, useFavorite, type FavoriteType } from "@/hooks/useFavorites";
+
+interface FavoriteButtonProps {
+  type: FavoriteType;
+  itemId: string;
+  className?: string;
+}
+
+export const FavoriteButton = ({ type, itemId, className }: FavoriteButtonProps) => {
+  const navigate = useNavigate();
+  const { data: config } = useSiteConfig();
+  const { isFavorite, toggle } = useFavorite(type, itemId);
+  const heartColor = config?.favorite_heart_color || "#FF0000";
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Os cards costumam estar dentro de links
+    e.preventDefault();
+    e.stopPropagation();
+
+    toggle.mutate(undefined, {
+      onSuccess: (saved) => toast.success(saved ? "Salvo nos seus itens" : "Removido dos salvos"),
+      onError: (error) => {
+        toast.error(error.message);
+        if (error.message === FAVORITE_LOGIN_REQUIRED) {
+          navigate("/login");
+        }
+      },
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      onClick={handleClick}
+      disabled={toggle.isPending}
+      aria-label={isFavorite ? "Remover dos salvos" : "Salvar"}
+      aria-pressed={isFavorite}
+      className={cn("h-8 w-8 shrink-0 rounded-full", className)}
+    >
+      <Heart className={cn("h-5 w-5", isFavorite && "fill-current")} style={{ color: heartColor }} />
+    </Button>
+  );
+};
+
+export default FavoriteButton;
@@ -3,12 +3,16 @@ import { useState } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { resolveMediaUrl } from "@/utils/mediaUrl";
+import ResponsiveImage from "./ResponsiveImage";
 
 interface MediaCarouselProps {
   images: string[];
   videoUrls: string[];
   instagramMedia?: InstagramMedia[];
   title: string;
+  // Repassado ao srcset das imagens (ex.: "(min-width: 768px) 33vw, 100vw")
+  sizes?: string;
 }
 
 interface InstagramMedia {
@@ -19,46 +23,22 @@ interface InstagramMedia {
 type MediaItem = {
   type: "image" | "video" | "instagram";
   url: string;
+  isEmbed?: boolean;
 };
 
-export const MediaCarousel = ({ images, videoUrls, instagramMedia = [], title }: MediaCarouselProps) => {
+export const MediaCarousel = ({ images, videoUrls, instagramMedia = [], title, sizes }: MediaCarouselProps) => {
   const [currentIndex, setCurrentIndex] = useState(0);
 
   const allMedia: MediaItem[] = [
-    ...(images?.map(url => ({ type: "image" as const, url })) || []),
+    ...(images?.map(url => ({ type: "image" as const, url: resolveMediaUrl(url, "image").url })) || []),
     ...(videoUrls?.map(url => {
-      const isYoutubeUrl = url.includes('youtube.com') || url.includes('youtu.be');
-      return { 
-        type: "video" as const, 
-        url: isYoutubeUrl ? url : url.replace('www.dropbox.com', 'dl.dropboxusercontent.com')
-      };
+      const media = resolveMediaUrl(url, "video");
+      return { type: "video" as const, url: media.url, isEmbed: media.provider === "youtube" };
     }) || []),
-    ...(instagramMedia?.map(media => {
-      let embedUrl = typeof media === 'string' ? media : media.url;
-      // Remove parâmetros e trailing slashes
-      embedUrl = embedUrl.split('?')[0].replace(/\/+$/, '');
-      
-      // Garantir que a URL começa com https://
-      if (!embedUrl.startsWith('http')) {
-        embedUrl = 'https://' + embedUrl;
-      }
-      
-      // Remover www. se existir
-      embedUrl = embedUrl.replace('www.', '');
-      
-      // Transformar URLs de reel em post
-      embedUrl = embedUrl.replace('/reel/', '/p/');
-      
-      // Garantir que termina com /embed
-      if (!embedUrl.endsWith('/embed')) {
-        embedUrl = embedUrl + '/embed';
-      }
-
-      // Adicionar parâmetros necessários
-      embedUrl = `${embedUrl}?cr=1&v=14&wp=540&rd=https%3A%2F%2Finstagram.com`;
-
-      return { type: "instagram" as const, url: embedUrl };
-    }) || [])
+    ...(instagramMedia?.map(media => ({
+      type: "instagram" as const,
+      url: resolveMediaUrl(typeof media === 'string' ? media : media.url, "instagram").url,
+    })) || [])
   ];
 
   const hasMultipleMedia = allMedia.length > 1;
@@ -74,14 +54,6 @@ export const MediaCarousel = ({ images, videoUrls, instagramMedia = [], title }:
     );
   };
 
-  const getYoutubeVideoId = (url: string) => {
-    if (url.includes('youtu.be')) {
-      return url.split('youtu.be/')[1];
-    }
-    const urlParams = new URLSearchParams(new URL(url).search);
-    return urlParams.get('v');
-  };
-
   const renderMedia = (mediaItem: MediaItem) => {
     if (mediaItem.type === 'instagram') {
       return (
@@ -99,14 +71,11 @@ export const MediaCarousel = ({ images, videoUrls, instagramMedia = [], title }:
     }
 
     if (mediaItem.type === 'video') {
-      const isYoutubeUrl = mediaItem.url.includes('youtube.com') || mediaItem.url.includes('youtu.be');
-      
-      if (isYoutubeUrl) {
-        const videoId = getYoutubeVideoId(mediaItem.url);
+      if (mediaItem.isEmbed) {
         return (
           <div className="relative w-full aspect-video">
             <iframe
-              src={`https://www.youtube.com/embed/${videoId}`}
+              src={mediaItem.url}
               allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
               allowFullScreen
               className="absolute inset-0 w-full h-full"
@@ -131,9 +100,11 @@ export const MediaCarousel = ({ images, videoUrls, instagramMedia = [], title }:
 
     return (
       <div className="relative w-full aspect-[4/3]">
-        <img
+        <ResponsiveImage
+          key={mediaItem.url}
           src={mediaItem.url}
           alt={title}
+          sizes={sizes}
           className="absolute inset-0 w-full h-full object-cover"
         />
       </div>
@@ -0,0 +1,80 @@
+import { useRef } from "react";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useFileUpload } from "@/hooks/useFileUpload";
+import type { StorageBucket } from "@/utils/storageUpload";
+
+interface MediaUploaderProps {
+  bucket: StorageBucket;
+  folder?: string;
+  accept?: string;
+  multiple?: boolean;
+  optimize?: boolean;
+  label?: string;
+  onUploaded: (urls: string[]) => void;
+}
+
+export const MediaUploader = ({
+  bucket,
+  folder,
+  accept = "image/*",
+  multiple = false,
+  optimize = true,
+  label = "Enviar imagem",
+  onUploaded,
+}: MediaUploaderProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { upload, uploads, isUploading } = useFileUpload({ bucket, folder, optimize });
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    const { results, errors } = await upload(files);
+
+    if (results.length > 0) {
+      onUploaded(results.map((result) => result.publicUrl));
+      toast.success(results.length > 1 ? `${results.length} arquivos enviados!` : "Arquivo enviado com sucesso!");
+    }
+    errors.forEach((error) => toast.error(error.message));
+
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        {isUploading ? "Enviando..." : label}
+      </Button>
+      {uploads.map((item) => (
+        <div key={item.id} className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="truncate">{item.fileName}</span>
+            <span>{item.progress}%</span>
+          </div>
+          <Progress value={item.progress} className="h-2" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MediaUploader;
@@ -4,6 +4,7 @@ import { Button } from "./ui/button";
 import { useSiteConfig } from "../hooks/useSiteConfig";
 import { ThemeToggle } from "./ThemeToggle";
 import { toast } from "sonner";
+import { resolveMediaUrl } from "../utils/mediaUrl";
 
 const Navbar = () => {
   const { data: config, isLoading, isError } = useSiteConfig();
@@ -21,12 +22,7 @@ const Navbar = () => {
 
   const handleImageError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
     console.error("Erro ao carregar a imagem do logo:", e);
-    toast.error("Erro ao carregar o logo. Verifique se o link do Dropbox termina com '?raw=1'");
-  };
-
-  const formatDropboxUrl = (url: string) => {
-    if (!url) return url;
-    return url.replace(/\?dl=\d/, "?raw=1");
+    toast.error("Erro ao carregar o logo. Verifique a imagem nas configurações do site");
   };
 
   if (isLoading) {
@@ -63,7 +59,7 @@ const Navbar = () => {
           >
             {config.navbar_logo_type === 'image' && config.navbar_logo_image ? (
               <img 
-                src={formatDropboxUrl(config.navbar_logo_image)}
+                src={resolveMediaUrl(config.navbar_logo_image, "image").url}
                 alt="Logo" 
                 className="h-12 w-12 rounded-xl object-cover border-2 transition-all duration-300 group-hover:scale-110 group-hover:shadow-lg"
                 style={{ 
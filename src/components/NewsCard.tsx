@@ -3,6 +3,7 @@ import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Card } from "@/components/ui/card";
 import MediaCarousel from "./MediaCarousel";
+import FavoriteButton from "./FavoriteButton";
 import { Link } from "react-router-dom";
 
 interface InstagramMedia {
@@ -55,6 +56,7 @@ const NewsCard = ({
               videoUrls={video_urls}
               instagramMedia={instagramMedia}
               title={title}
+              sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
             />
           </div>
         )}
@@ -81,9 +83,12 @@ const NewsCard = ({
           </div>
 
           {/* Title */}
-          <h3 className="text-lg font-bold leading-tight group-hover:text-primary transition-colors">
-            {title}
-          </h3>
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="text-lg font-bold leading-tight group-hover:text-primary transition-colors">
+              {title}
+            </h3>
+            <FavoriteButton type="news" itemId={id} />
+          </div>
 
           {/* Content Preview */}
           <div className="text-sm text-gray-600 line-clamp-3">
@@ -0,0 +1,61 @@
+import { Bell, BellOff } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  NOTIFICATION_LOGIN_REQUIRED,
+  NOTIFICATION_TOPIC_LABELS,
+  useNotificationPreferences,
+  type NotificationTopic,
+} from "@/hooks/useNotificationPreferences";
+
+// Sino das páginas de listagem: liga/desliga as notificações daquele tipo de conteúdo
+const NotificationTopicButton = ({ topic }: { topic: NotificationTopic }) => {
+  const navigate = useNavigate();
+  const { data: preferences, update } = useNotificationPreferences();
+  const isEnabled = !!preferences?.[topic];
+  const label = NOTIFICATION_TOPIC_LABELS[topic];
+
+  const handleClick = () => {
+    if (!preferences) {
+      toast.error(NOTIFICATION_LOGIN_REQUIRED);
+      navigate("/login");
+      return;
+    }
+
+    update.mutate(
+      { [topic]: !isEnabled },
+      {
+        onSuccess: () =>
+          toast.success(`Notificações de ${label.toLowerCase()} ${isEnabled ? "desativadas" : "ativadas"}`, {
+            action: {
+              label: "Preferências",
+              onClick: () => navigate("/notify/preferencias"),
+            },
+          }),
+        onError: (error) => {
+          console.error("Error updating notification preferences:", error);
+          toast.error("Erro ao atualizar notificações");
+        },
+      }
+    );
+  };
+
+  const Icon = preferences && !isEnabled ? BellOff : Bell;
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={handleClick}
+      disabled={update.isPending}
+      aria-pressed={isEnabled}
+      aria-label={`Notificações de ${label.toLowerCase()}`}
+      className="hover:scale-105 transition-transform text-foreground"
+    >
+      <Icon className="h-5 w-5" />
+    </Button>
+  );
+};
+
+export default NotificationTopicButton;
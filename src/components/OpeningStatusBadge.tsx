@@ -0,0 +1,33 @@
+import { Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Json } from "@/integrations/supabase/types";
+import { formatOpeningStatus, getOpeningStatus, parseOpeningHours } from "@/utils/openingHours";
+
+interface OpeningStatusBadgeProps {
+  openingHours: Json | null | undefined;
+  className?: string;
+}
+
+export const OpeningStatusBadge = ({ openingHours, className }: OpeningStatusBadgeProps) => {
+  const status = getOpeningStatus(parseOpeningHours(openingHours));
+
+  if (!status) return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium",
+        status.isOpen
+          ? "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+          : "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+        className
+      )}
+    >
+      <Clock className="w-3 h-3" />
+      {formatOpeningStatus(status)}
+      {status.exceptionLabel && ` (${status.exceptionLabel})`}
+    </span>
+  );
+};
+
+export default OpeningStatusBadge;
@@ -1,9 +1,13 @@
 
 import { Phone, Globe, MapPin, Clock, User2, Facebook, Instagram, MessageCircle, ChevronDown, ChevronUp, Wallet } from "lucide-react";
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import MediaCarousel from "./MediaCarousel";
+import OpeningStatusBadge from "./OpeningStatusBadge";
+import FavoriteButton from "./FavoriteButton";
 import type { Place } from "@/types/places";
+import { parseOpeningHours } from "@/utils/openingHours";
 
 interface PlaceCardProps {
   place: Place & {
@@ -17,47 +21,47 @@ interface PlaceCardProps {
 export function PlaceCard({ place }: PlaceCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const socialMedia = place.social_media as { facebook?: string; instagram?: string } | null;
-
-  const processedVideoUrls = (place.video_urls || []).map(url => {
-    if (url.includes('dropbox.com')) {
-      return url.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-    return url;
-  });
+  const openingHoursNote = parseOpeningHours(place.opening_hours)?.note;
 
   return (
     <Card className="overflow-hidden transition-all duration-300 hover:shadow-lg group">
-      {(place.images?.length > 0 || processedVideoUrls.length > 0) && (
+      {(place.images?.length > 0 || place.video_urls?.length > 0) && (
         <div className="relative aspect-video overflow-hidden">
           <MediaCarousel 
             images={place.images || []}
-            videoUrls={processedVideoUrls}
+            videoUrls={place.video_urls || []}
             title={place.name}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
           />
         </div>
       )}
       
       <CardHeader className="space-y-2">
         <div className="flex justify-between items-start">
-          <h2 className="text-xl font-semibold text-card-foreground">{place.name}</h2>
-          {place.description && place.description.length > 150 && (
-            <button
-              onClick={() => setIsExpanded(!isExpanded)}
-              className="text-sm text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1"
-            >
-              {isExpanded ? (
-                <>
-                  Ver menos
-                  <ChevronUp className="h-4 w-4" />
-                </>
-              ) : (
-                <>
-                  Ver mais
-                  <ChevronDown className="h-4 w-4" />
-                </>
-              )}
-            </button>
-          )}
+          <Link to={`/lugares/${place.id}`} className="hover:underline">
+            <h2 className="text-xl font-semibold text-card-foreground">{place.name}</h2>
+          </Link>
+          <div className="flex items-center gap-1">
+            {place.description && place.description.length > 150 && (
+              <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="text-sm text-muted-foreground hover:text-foreground transition-colors flex items-center gap-1"
+              >
+                {isExpanded ? (
+                  <>
+                    Ver menos
+                    <ChevronUp className="h-4 w-4" />
+                  </>
+                ) : (
+                  <>
+                    Ver mais
+                    <ChevronDown className="h-4 w-4" />
+                  </>
+                )}
+              </button>
+            )}
+            <FavoriteButton type="place" itemId={place.id} />
+          </div>
         </div>
 
         {place.categories && (
@@ -71,6 +75,8 @@ export function PlaceCard({ place }: PlaceCardProps) {
             {place.categories.name}
           </span>
         )}
+
+        <OpeningStatusBadge openingHours={place.opening_hours} />
       </CardHeader>
 
       <CardContent className="space-y-4">
@@ -95,10 +101,10 @@ export function PlaceCard({ place }: PlaceCardProps) {
             </div>
           )}
 
-          {place.opening_hours && (
+          {openingHoursNote && (
             <div className="flex items-center gap-2 text-sm">
               <Clock className="w-4 h-4 text-muted-foreground" />
-              <span className="text-muted-foreground">{place.opening_hours}</span>
+              <span className="text-muted-foreground">{openingHoursNote}</span>
             </div>
           )}
 
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import { Flag } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  REPORT_REASONS_BY_TARGET,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+  type ReportReason,
+  type ReportTargetType,
+} from "@/utils/contentReports";
+
+const REPORT_LOGIN_REQUIRED = "Faça login para denunciar";
+
+// Violação do índice único: já existe uma denúncia em aberto deste usuário para o item
+const UNIQUE_VIOLATION = "23505";
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  // Texto do botão; sem ele, apenas o ícone é exibido
+  label?: string;
+  variant?: ButtonProps["variant"];
+  className?: string;
+}
+
+export const ReportButton = ({ targetType, targetId, label, variant = "ghost", className }: ReportButtonProps) => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+
+  const report = useMutation({
+    mutationFn: async (selectedReason: ReportReason) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error(REPORT_LOGIN_REQUIRED);
+      }
+
+      const { error } = await supabase.from("content_reports").insert({
+        reporter_id: session.user.id,
+        target_type: targetType,
+        target_id: targetId,
+        reason: selectedReason,
+        details: details.trim() || null,
+      });
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error("Você já denunciou este conteúdo. Nossa equipe está analisando.");
+      }
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Denúncia enviada. Obrigado por ajudar a manter a comunidade segura.");
+      setOpen(false);
+      setReason(null);
+      setDetails("");
+    },
+    onError: (error) => {
+      toast.error(error.message);
+      if (error.message === REPORT_LOGIN_REQUIRED) {
+        navigate("/login");
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant={variant}
+          size={label ? "sm" : "icon"}
+          aria-label={`Denunciar ${REPORT_TARGET_LABELS[targetType].toLowerCase()}`}
+          className={className}
+        >
+          <Flag className={label ? "h-4 w-4 mr-2" : "h-5 w-5"} />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Denunciar {REPORT_TARGET_LABELS[targetType].toLowerCase()}</DialogTitle>
+          <DialogDescription>
+            Sua denúncia é anônima para o autor e será analisada pela moderação.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <RadioGroup value={reason ?? ""} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS_BY_TARGET[targetType].map((option) => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`report-${option}`} />
+                <Label htmlFor={`report-${option}`}>{REPORT_REASON_LABELS[option]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Detalhes (opcional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Conte o que aconteceu"
+              maxLength={1000}
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={() => reason && report.mutate(reason)}
+            disabled={!reason || report.isPending}
+          >
+            Enviar denúncia
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportButton;
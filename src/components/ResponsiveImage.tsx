@@ -0,0 +1,45 @@
+import { useState, type ImgHTMLAttributes } from "react";
+import { cn } from "@/lib/utils";
+import { getResponsiveImageSources } from "@/utils/imageProcessing";
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "srcSet"> {
+  src: string;
+  alt: string;
+  // Largura ocupada pela imagem no layout, usada pelo navegador para escolher a variante
+  sizes?: string;
+}
+
+export const ResponsiveImage = ({
+  src,
+  alt,
+  sizes = "100vw",
+  loading = "lazy",
+  className,
+  style,
+  onLoad,
+  ...props
+}: ResponsiveImageProps) => {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const { srcSet, placeholder } = getResponsiveImageSources(src);
+  const showPlaceholder = placeholder && !isLoaded;
+
+  return (
+    <img
+      {...props}
+      src={src}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      onLoad={(event) => {
+        setIsLoaded(true);
+        onLoad?.(event);
+      }}
+      className={cn("transition-[filter] duration-300", showPlaceholder && "blur-md bg-cover bg-center", className)}
+      style={showPlaceholder ? { ...style, backgroundImage: `url(${placeholder})` } : style}
+    />
+  );
+};
+
+export default ResponsiveImage;
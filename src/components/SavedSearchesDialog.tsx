@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bookmark, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  SAVED_SEARCH_LOGIN_REQUIRED,
+  useSavedSearches,
+  type SavedSearch,
+  type SavedSearchInput,
+} from "@/hooks/useSavedSearches";
+
+interface SavedSearchesDialogProps {
+  // Filtros atualmente aplicados na página de produtos
+  currentSearch: SavedSearchInput;
+  // Nome sugerido para a busca atual (termo, categoria ou cidade)
+  suggestedName: string;
+  onApply: (search: SavedSearch) => void;
+}
+
+const describeSearch = (search: SavedSearch) => {
+  const parts = [
+    search.search_term && `"${search.search_term}"`,
+    search.categories?.name,
+    search.latitude != null && search.longitude != null
+      ? `até ${search.radius_km}km${search.locations ? ` de ${search.locations.name}` : ""}`
+      : search.locations?.name,
+    search.condition,
+    search.min_price != null && `a partir de R$ ${search.min_price}`,
+    search.max_price != null && `até R$ ${search.max_price}`,
+  ];
+  return parts.filter(Boolean).join(" · ") || "Todos os produtos";
+};
+
+const SavedSearchesDialog = ({ currentSearch, suggestedName, onApply }: SavedSearchesDialogProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const { data: savedSearches = [], save, setNotify, remove } = useSavedSearches();
+
+  const handleSave = () => {
+    save.mutate(
+      { ...currentSearch, name: name.trim() || suggestedName },
+      {
+        onSuccess: () => {
+          setName("");
+          toast({
+            title: "Busca salva",
+            description: "Você será avisado quando surgirem novos anúncios",
+          });
+        },
+        onError: (error) => {
+          if (error.message === SAVED_SEARCH_LOGIN_REQUIRED) {
+            toast({ title: SAVED_SEARCH_LOGIN_REQUIRED });
+            navigate("/login");
+            return;
+          }
+          console.error("Error saving search:", error);
+          toast({
+            title: "Erro ao salvar busca",
+            description: "Tente novamente mais tarde",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleRemove = (id: string) => {
+    remove.mutate(id, {
+      onError: (error) => {
+        console.error("Error deleting saved search:", error);
+        toast({
+          title: "Erro ao excluir busca",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="hover:scale-105 transition-transform text-foreground rounded-full shadow-lg"
+        >
+          <Bookmark className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Buscas salvas</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Salvar busca atual</Label>
+            <div className="flex gap-2">
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={suggestedName}
+                maxLength={60}
+              />
+              <Button onClick={handleSave} disabled={save.isPending}>
+                Salvar
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {savedSearches.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Nenhuma busca salva ainda.
+              </p>
+            ) : (
+              savedSearches.map((search) => (
+                <div key={search.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => {
+                      onApply(search);
+                      setOpen(false);
+                    }}
+                  >
+                    <p className="font-medium truncate">{search.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{describeSearch(search)}</p>
+                  </button>
+                  <Switch
+                    checked={search.notify}
+                    onCheckedChange={(notify) => setNotify.mutate({ id: search.id, notify })}
+                    aria-label="Receber alertas de novos anúncios"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(search.id)}
+                    aria-label="Excluir busca"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavedSearchesDialog;
@@ -0,0 +1,62 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SellerRatingProps {
+  average: number | null | undefined;
+  count: number | null | undefined;
+  className?: string;
+}
+
+// Nota média do vendedor no formato "★ 4,8 (12)"; vendedores sem avaliações não exibem nada
+export const SellerRating = ({ average, count, className }: SellerRatingProps) => {
+  if (!count || average == null) return null;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 text-sm text-foreground/70", className)}
+      aria-label={`Nota ${average.toFixed(1)} de 5, ${count} ${count === 1 ? "avaliação" : "avaliações"}`}
+    >
+      <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+      <span className="font-medium">{average.toFixed(1).replace(".", ",")}</span>
+      <span>({count})</span>
+    </span>
+  );
+};
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "lg";
+}
+
+// Estrelas de 1 a 5; sem onChange, apenas exibe a nota
+export const StarRating = ({ value, onChange, size = "sm" }: StarRatingProps) => (
+  <div className="flex gap-0.5">
+    {[1, 2, 3, 4, 5].map((star) => {
+      const icon = (
+        <Star
+          className={cn(
+            size === "lg" ? "h-7 w-7" : "h-4 w-4",
+            star <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"
+          )}
+        />
+      );
+
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          aria-label={`${star} ${star === 1 ? "estrela" : "estrelas"}`}
+          className="hover:scale-110 transition-transform"
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
+
+export default SellerRating;
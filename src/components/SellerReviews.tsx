@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { formatDistance } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { SellerRating, StarRating } from "@/components/SellerRating";
+import { useSellerReviews } from "@/hooks/useSellerReviews";
+
+interface SellerReviewsProps {
+  sellerId: string;
+  // Anúncio a partir do qual a avaliação é feita
+  productId?: string;
+  ratingAverage?: number | null;
+  ratingCount?: number | null;
+}
+
+const SellerReviews = ({ sellerId, productId, ratingAverage, ratingCount }: SellerReviewsProps) => {
+  const { reviews, myReview, canReview, submit, remove } = useSellerReviews(sellerId);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  // Quem já avaliou edita a própria avaliação
+  useEffect(() => {
+    if (myReview) {
+      setRating(myReview.rating);
+      setComment(myReview.comment || "");
+    }
+  }, [myReview]);
+
+  const handleSubmit = () => {
+    submit.mutate(
+      { rating, comment, productId },
+      {
+        onSuccess: () => toast.success(myReview ? "Avaliação atualizada" : "Obrigado pela avaliação!"),
+        onError: (error) => {
+          console.error("Error saving review:", error);
+          toast.error("Erro ao salvar avaliação");
+        },
+      }
+    );
+  };
+
+  const handleRemove = (reviewId: string) => {
+    remove.mutate(reviewId, {
+      onSuccess: () => {
+        setRating(0);
+        setComment("");
+        toast.success("Avaliação removida");
+      },
+      onError: () => toast.error("Erro ao remover avaliação"),
+    });
+  };
+
+  const otherReviews = reviews.data?.filter((review) => review.id !== myReview?.id) || [];
+
+  return (
+    <Card className="bg-muted/50">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">Avaliações do vendedor</h2>
+          <SellerRating average={ratingAverage} count={ratingCount} />
+        </div>
+
+        {canReview && (
+          <div className="space-y-2 rounded-lg border border-border bg-background p-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{myReview ? "Sua avaliação" : "Avalie este vendedor"}</p>
+              {myReview && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleRemove(myReview.id)}
+                  aria-label="Remover avaliação"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <StarRating value={rating} onChange={setRating} size="lg" />
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Como foi negociar com este vendedor? (opcional)"
+              maxLength={1000}
+            />
+            <Button onClick={handleSubmit} disabled={!rating || submit.isPending}>
+              {myReview ? "Atualizar avaliação" : "Enviar avaliação"}
+            </Button>
+          </div>
+        )}
+
+        {reviews.isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando avaliações...</p>
+        ) : otherReviews.length === 0 && !myReview ? (
+          <p className="text-sm text-muted-foreground">
+            Este vendedor ainda não recebeu avaliações.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {otherReviews.map((review) => (
+              <li key={review.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <StarRating value={review.rating} />
+                  <span className="text-sm font-medium">
+                    {review.reviewer?.full_name || "Usuário"}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    há {formatDistance(new Date(review.created_at), new Date(), { locale: ptBR })}
+                  </span>
+                </div>
+                {review.comment && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{review.comment}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SellerReviews;
@@ -0,0 +1,32 @@
+import { Video } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getYoutubeThumbnailUrl, getYoutubeVideoId } from "@/utils/mediaUrl";
+
+interface VideoThumbnailProps {
+  url: string;
+  className?: string;
+}
+
+// Miniatura do YouTube quando disponível; vídeos enviados exibem apenas um ícone
+export const VideoThumbnail = ({ url, className }: VideoThumbnailProps) => {
+  const youtubeId = getYoutubeVideoId(url);
+
+  if (!youtubeId) {
+    return (
+      <div className={cn("h-10 w-16 shrink-0 rounded bg-muted flex items-center justify-center", className)}>
+        <Video className="h-4 w-4 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={getYoutubeThumbnailUrl(youtubeId, "default")}
+      alt=""
+      loading="lazy"
+      className={cn("h-10 w-16 shrink-0 rounded object-cover", className)}
+    />
+  );
+};
+
+export default VideoThumbnail;
@@ -8,6 +8,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Plus, Trash2 } from "lucide-react";
 import type { Database } from "@/types/supabase";
 import { toast } from "sonner";
+import MediaUploader from "@/components/MediaUploader";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { parseRecurrence } from "@/utils/eventRecurrence";
+import VideoThumbnail from "@/components/VideoThumbnail";
+import { MediaUrlError, normalizeMediaUrl } from "@/utils/mediaUrl";
+import { useMediaCleanup } from "@/hooks/useMediaCleanup";
 
 type Event = Database['public']['Tables']['events']['Row'];
 type Category = Database['public']['Tables']['categories']['Row'];
@@ -15,7 +21,8 @@ type Category = Database['public']['Tables']['categories']['Row'];
 interface EventFormProps {
   initialData?: Event;
   categories: Category[];
-  onSubmit: (eventData: Omit<Event, 'id' | 'created_at'>) => void;
+  // Resolve true quando o evento foi salvo
+  onSubmit: (eventData: Omit<Event, 'id' | 'created_at'>) => Promise<boolean>;
   onCancel?: () => void;
 }
 
@@ -34,50 +41,32 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
     button_color: "#000000",
     button_secondary_color: "#000000",
     category_id: "",
+    recurrence: null,
   });
 
-  const [newImageUrl, setNewImageUrl] = useState("");
   const [newVideoUrl, setNewVideoUrl] = useState("");
+  const media = useMediaCleanup();
 
   useEffect(() => {
+    media.reset([...(initialData?.images || []), ...(initialData?.video_urls || [])]);
+
     if (initialData) {
       setEventData({
         ...initialData,
         event_date: new Date(initialData.event_date).toISOString().split('T')[0],
         images: initialData.images || [],
-        video_urls: initialData.video_urls || []
+        video_urls: initialData.video_urls || [],
+        recurrence: parseRecurrence(initialData.recurrence)
       });
     }
-  }, [initialData]);
-
-  const handleAddImage = () => {
-    if (!newImageUrl) {
-      toast.error("Por favor, insira uma URL de imagem válida");
-      return;
-    }
-
-    // Check if it's a valid Dropbox URL
-    if (!newImageUrl.includes('dropbox.com')) {
-      toast.error("Por favor, insira uma URL válida do Dropbox");
-      return;
-    }
-
-    // Convert Dropbox URL to direct link if needed
-    let directImageUrl = newImageUrl;
-    if (newImageUrl.includes('www.dropbox.com')) {
-      directImageUrl = newImageUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
+  }, [initialData, media]);
 
-    if (!eventData.images?.includes(directImageUrl)) {
-      setEventData({
-        ...eventData,
-        images: [...(eventData.images || []), directImageUrl]
-      });
-      setNewImageUrl("");
-      toast.success("Imagem adicionada com sucesso!");
-    } else {
-      toast.error("Esta imagem já foi adicionada");
-    }
+  const handleImagesUploaded = (urls: string[]) => {
+    media.trackUploads(urls);
+    setEventData(prev => ({
+      ...prev,
+      images: [...(prev.images || []), ...urls]
+    }));
   };
 
   const handleRemoveImage = (imageUrl: string) => {
@@ -94,25 +83,18 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
       return;
     }
 
-    // Check if it's a valid Dropbox or YouTube URL
-    const isDropboxUrl = newVideoUrl.includes('dropbox.com');
-    const isYoutubeUrl = newVideoUrl.includes('youtube.com') || newVideoUrl.includes('youtu.be');
-
-    if (!isDropboxUrl && !isYoutubeUrl) {
-      toast.error("Por favor, insira uma URL válida do Dropbox ou YouTube");
+    let videoUrl: string;
+    try {
+      videoUrl = normalizeMediaUrl(newVideoUrl, "video", { providers: ["youtube"] }).url;
+    } catch (error) {
+      toast.error(error instanceof MediaUrlError ? error.message : "URL de vídeo inválida");
       return;
     }
 
-    // Convert Dropbox URL to direct link if needed
-    let directVideoUrl = newVideoUrl;
-    if (isDropboxUrl && newVideoUrl.includes('www.dropbox.com')) {
-      directVideoUrl = newVideoUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
-    if (!eventData.video_urls?.includes(directVideoUrl)) {
+    if (!eventData.video_urls?.includes(videoUrl)) {
       setEventData({
         ...eventData,
-        video_urls: [...(eventData.video_urls || []), directVideoUrl]
+        video_urls: [...(eventData.video_urls || []), videoUrl]
       });
       setNewVideoUrl("");
       toast.success("Vídeo adicionado com sucesso!");
@@ -129,9 +111,18 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
     toast.success("Vídeo removido com sucesso!");
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(eventData);
+    const saved = await media.save(
+      [...(eventData.images || []), ...(eventData.video_urls || [])],
+      () => onSubmit(eventData)
+    );
+
+    // O formulário de novo evento continua preenchido: um novo envio cria outro evento,
+    // então as mídias do que acabou de ser criado não são mais deste formulário
+    if (saved && !initialData) {
+      media.reset([]);
+    }
   };
 
   return (
@@ -210,28 +201,33 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
           />
         </div>
 
+        <div className="col-span-2">
+          <RecurrenceEditor
+            eventDate={eventData.event_date}
+            value={eventData.recurrence}
+            onChange={(recurrence) => setEventData({ ...eventData, recurrence })}
+          />
+        </div>
+
         <div className="col-span-2 space-y-2">
-          <Label>Imagens do Dropbox</Label>
+          <Label>Imagens</Label>
           <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                value={newImageUrl}
-                onChange={(e) => setNewImageUrl(e.target.value)}
-                placeholder="Cole a URL compartilhada do Dropbox"
-              />
-              <Button type="button" onClick={handleAddImage}>
-                <Plus className="w-4 h-4 mr-2" />
-                Adicionar
-              </Button>
-            </div>
-            <div className="grid grid-cols-1 gap-2">
+            <MediaUploader
+              bucket="media"
+              folder="events"
+              multiple
+              label="Enviar imagens"
+              onUploaded={handleImagesUploaded}
+            />
+            <div className="grid grid-cols-3 gap-2">
               {eventData.images?.map((url, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <Input value={url} readOnly />
+                <div key={index} className="relative aspect-square rounded-md overflow-hidden bg-muted">
+                  <img src={url} alt={`Imagem ${index + 1}`} className="w-full h-full object-cover" />
                   <Button
                     type="button"
                     variant="destructive"
                     size="icon"
+                    className="absolute top-1 right-1 h-7 w-7"
                     onClick={() => handleRemoveImage(url)}
                   >
                     <Trash2 className="w-4 h-4" />
@@ -243,13 +239,26 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
         </div>
 
         <div className="col-span-2 space-y-2">
-          <Label>Vídeos (Dropbox ou YouTube)</Label>
+          <Label>Vídeos</Label>
           <div className="space-y-4">
+            <MediaUploader
+              bucket="media"
+              folder="events"
+              accept="video/*"
+              label="Enviar vídeo"
+              onUploaded={(urls) => {
+                media.trackUploads(urls);
+                setEventData(prev => ({
+                  ...prev,
+                  video_urls: [...(prev.video_urls || []), ...urls]
+                }));
+              }}
+            />
             <div className="flex gap-2">
               <Input
                 value={newVideoUrl}
                 onChange={(e) => setNewVideoUrl(e.target.value)}
-                placeholder="Cole a URL do Dropbox ou YouTube"
+                placeholder="Ou cole a URL do YouTube"
               />
               <Button type="button" onClick={handleAddVideo}>
                 <Plus className="w-4 h-4 mr-2" />
@@ -259,6 +268,7 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
             <div className="grid grid-cols-1 gap-2">
               {eventData.video_urls?.map((url, index) => (
                 <div key={index} className="flex items-center gap-2">
+                  <VideoThumbnail url={url} />
                   <Input value={url} readOnly />
                   <Button
                     type="button"
@@ -327,7 +337,14 @@ export const EventForm = ({ initialData, categories, onSubmit, onCancel }: Event
 
       <div className="flex gap-2 justify-end">
         {onCancel && (
-          <Button type="button" variant="outline" onClick={onCancel}>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              media.discard();
+              onCancel();
+            }}
+          >
             Cancelar
           </Button>
         )}
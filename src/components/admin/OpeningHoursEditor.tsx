@@ -0,0 +1,214 @@
+import { Plus, Trash2, Copy } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import type { OpeningHours, OpeningHoursException, OpeningPeriod } from "../../types/places";
+import { WEEKDAY_LABELS } from "@/utils/openingHours";
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours;
+  onChange: (value: OpeningHours) => void;
+}
+
+const DEFAULT_PERIOD: OpeningPeriod = { open: "08:00", close: "18:00" };
+
+interface PeriodListProps {
+  periods: OpeningPeriod[];
+  onChange: (periods: OpeningPeriod[]) => void;
+}
+
+const PeriodList = ({ periods, onChange }: PeriodListProps) => (
+  <div className="space-y-2">
+    {periods.map((period, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <Input
+          type="time"
+          value={period.open}
+          onChange={(e) =>
+            onChange(periods.map((p, i) => (i === index ? { ...p, open: e.target.value } : p)))
+          }
+          className="w-28"
+        />
+        <span className="text-sm text-muted-foreground">às</span>
+        <Input
+          type="time"
+          value={period.close}
+          onChange={(e) =>
+            onChange(periods.map((p, i) => (i === index ? { ...p, close: e.target.value } : p)))
+          }
+          className="w-28"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(periods.filter((_, i) => i !== index))}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    ))}
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      onClick={() => onChange([...periods, periods.length ? { open: "", close: "" } : DEFAULT_PERIOD])}
+    >
+      <Plus className="w-4 h-4 mr-2" />
+      Adicionar intervalo
+    </Button>
+  </div>
+);
+
+export const OpeningHoursEditor = ({ value, onChange }: OpeningHoursEditorProps) => {
+  const updateDay = (dayIndex: number, closed: boolean, periods: OpeningPeriod[]) => {
+    onChange({
+      ...value,
+      weekly: value.weekly.map((day, index) =>
+        index === dayIndex ? { closed, periods } : day
+      ),
+    });
+  };
+
+  // Replica o horário do dia para a semana inteira
+  const copyToAllDays = (dayIndex: number) => {
+    const source = value.weekly[dayIndex];
+    onChange({
+      ...value,
+      weekly: value.weekly.map(() => ({ closed: source.closed, periods: [...source.periods] })),
+    });
+  };
+
+  const updateException = (exceptionIndex: number, changes: Partial<OpeningHoursException>) => {
+    onChange({
+      ...value,
+      exceptions: value.exceptions.map((exception, index) =>
+        index === exceptionIndex ? { ...exception, ...changes } : exception
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {value.weekly.map((day, dayIndex) => (
+          <div key={dayIndex} className="flex flex-col md:flex-row md:items-start gap-3 border-b pb-3">
+            <div className="flex items-center justify-between md:w-48 gap-2">
+              <span className="font-medium">{WEEKDAY_LABELS[dayIndex]}</span>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={!day.closed}
+                  onCheckedChange={(open) =>
+                    updateDay(dayIndex, !open, open && day.periods.length === 0 ? [DEFAULT_PERIOD] : day.periods)
+                  }
+                />
+                <span className="text-sm text-muted-foreground w-14">
+                  {day.closed ? "Fechado" : "Aberto"}
+                </span>
+              </div>
+            </div>
+            {!day.closed && (
+              <div className="flex-1 flex flex-col md:flex-row md:items-start gap-2">
+                <PeriodList
+                  periods={day.periods}
+                  onChange={(periods) => updateDay(dayIndex, false, periods)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyToAllDays(dayIndex)}
+                  className="md:ml-auto"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Copiar para todos
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Feriados e datas especiais</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...value,
+                exceptions: [...value.exceptions, { date: "", label: "", closed: true, periods: [] }],
+              })
+            }
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar data
+          </Button>
+        </div>
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="date"
+                value={exception.date}
+                onChange={(e) => updateException(index, { date: e.target.value })}
+                className="w-40"
+              />
+              <Input
+                value={exception.label || ""}
+                onChange={(e) => updateException(index, { label: e.target.value })}
+                placeholder="Ex: Natal"
+                className="flex-1 min-w-[120px]"
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={!exception.closed}
+                  onCheckedChange={(open) =>
+                    updateException(index, {
+                      closed: !open,
+                      periods: open && exception.periods.length === 0 ? [DEFAULT_PERIOD] : exception.periods,
+                    })
+                  }
+                />
+                <span className="text-sm text-muted-foreground w-14">
+                  {exception.closed ? "Fechado" : "Aberto"}
+                </span>
+              </div>
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                onClick={() =>
+                  onChange({ ...value, exceptions: value.exceptions.filter((_, i) => i !== index) })
+                }
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {!exception.closed && (
+              <PeriodList
+                periods={exception.periods}
+                onChange={(periods) => updateException(index, { periods })}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="opening_hours_note">Observações</Label>
+        <Input
+          id="opening_hours_note"
+          value={value.note || ""}
+          onChange={(e) => onChange({ ...value, note: e.target.value })}
+          placeholder="Ex: Cozinha fecha 30 minutos antes"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OpeningHoursEditor;
@@ -8,14 +8,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { Plus, Trash2 } from "lucide-react";
 import { toast } from "sonner";
-import type { PlaceFormData, Place } from "../../types/places";
+import MediaUploader from "@/components/MediaUploader";
+import { OpeningHoursEditor } from "./OpeningHoursEditor";
+import type { PlaceFormData, Place, OpeningHours } from "../../types/places";
+import { createEmptyOpeningHours, parseOpeningHours, serializeOpeningHours } from "@/utils/openingHours";
 import type { Database } from "../../types/supabase";
+import VideoThumbnail from "@/components/VideoThumbnail";
+import { MediaUrlError, normalizeMediaUrl } from "@/utils/mediaUrl";
+import { useMediaCleanup } from "@/hooks/useMediaCleanup";
 
 type Category = Database['public']['Tables']['categories']['Row'];
 
 interface PlaceFormProps {
   initialData?: Place;
-  onSubmit: (data: PlaceFormData) => void;
+  // Resolve true quando o local foi salvo
+  onSubmit: (data: PlaceFormData) => Promise<boolean>;
   onCancel: () => void;
 }
 
@@ -25,7 +32,7 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
     description: "",
     address: "",
     owner_name: "",
-    opening_hours: "",
+    opening_hours: null,
     entrance_fee: "",
     maps_url: "",
     phone: "",
@@ -41,18 +48,25 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
     },
   });
 
+  const [openingHours, setOpeningHours] = useState<OpeningHours>(createEmptyOpeningHours);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [newImageUrl, setNewImageUrl] = useState("");
   const [newVideoUrl, setNewVideoUrl] = useState("");
+  const media = useMediaCleanup();
 
   useEffect(() => {
+    media.reset([
+      ...(initialData?.image ? [initialData.image] : []),
+      ...(initialData?.images || []),
+      ...(initialData?.video_urls || []),
+    ]);
+
     if (initialData) {
       setFormData({
         name: initialData.name,
         description: initialData.description,
         address: initialData.address,
         owner_name: initialData.owner_name || "",
-        opening_hours: initialData.opening_hours || "",
+        opening_hours: initialData.opening_hours || null,
         entrance_fee: initialData.entrance_fee || "",
         maps_url: initialData.maps_url || "",
         phone: initialData.phone || "",
@@ -67,8 +81,9 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
           instagram: "",
         },
       });
+      setOpeningHours(parseOpeningHours(initialData.opening_hours) || createEmptyOpeningHours());
     }
-  }, [initialData]);
+  }, [initialData, media]);
 
   useEffect(() => {
     const fetchCategories = async () => {
@@ -85,32 +100,12 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
     fetchCategories();
   }, []);
 
-  const handleAddImage = () => {
-    if (!newImageUrl) {
-      toast.error("Por favor, insira uma URL de imagem válida");
-      return;
-    }
-
-    if (!newImageUrl.includes('dropbox.com')) {
-      toast.error("Por favor, insira uma URL válida do Dropbox");
-      return;
-    }
-
-    let directImageUrl = newImageUrl;
-    if (newImageUrl.includes('www.dropbox.com')) {
-      directImageUrl = newImageUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
-    if (!formData.images?.includes(directImageUrl)) {
-      setFormData({
-        ...formData,
-        images: [...(formData.images || []), directImageUrl]
-      });
-      setNewImageUrl("");
-      toast.success("Imagem adicionada com sucesso!");
-    } else {
-      toast.error("Esta imagem já foi adicionada");
-    }
+  const handleImagesUploaded = (urls: string[]) => {
+    media.trackUploads(urls);
+    setFormData(prev => ({
+      ...prev,
+      images: [...(prev.images || []), ...urls]
+    }));
   };
 
   const handleRemoveImage = (imageUrl: string) => {
@@ -127,23 +122,18 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
       return;
     }
 
-    const isDropboxUrl = newVideoUrl.includes('dropbox.com');
-    const isYoutubeUrl = newVideoUrl.includes('youtube.com') || newVideoUrl.includes('youtu.be');
-
-    if (!isDropboxUrl && !isYoutubeUrl) {
-      toast.error("Por favor, insira uma URL válida do Dropbox ou YouTube");
+    let videoUrl: string;
+    try {
+      videoUrl = normalizeMediaUrl(newVideoUrl, "video", { providers: ["youtube"] }).url;
+    } catch (error) {
+      toast.error(error instanceof MediaUrlError ? error.message : "URL de vídeo inválida");
       return;
     }
 
-    let directVideoUrl = newVideoUrl;
-    if (isDropboxUrl && newVideoUrl.includes('www.dropbox.com')) {
-      directVideoUrl = newVideoUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
-    if (!formData.video_urls?.includes(directVideoUrl)) {
+    if (!formData.video_urls?.includes(videoUrl)) {
       setFormData({
         ...formData,
-        video_urls: [...(formData.video_urls || []), directVideoUrl]
+        video_urls: [...(formData.video_urls || []), videoUrl]
       });
       setNewVideoUrl("");
       toast.success("Vídeo adicionado com sucesso!");
@@ -160,9 +150,19 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
     toast.success("Vídeo removido com sucesso!");
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    await media.save(
+      [
+        ...(formData.image ? [formData.image] : []),
+        ...(formData.images || []),
+        ...(formData.video_urls || []),
+      ],
+      () => onSubmit({
+        ...formData,
+        opening_hours: serializeOpeningHours(openingHours),
+      })
+    );
   };
 
   return (
@@ -220,29 +220,26 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
           />
         </div>
 
-        {/* Seção de Imagens do Dropbox */}
+        {/* Seção de Imagens */}
         <div className="col-span-2 space-y-2">
-          <Label>Imagens do Dropbox</Label>
+          <Label>Imagens</Label>
           <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                value={newImageUrl}
-                onChange={(e) => setNewImageUrl(e.target.value)}
-                placeholder="Cole a URL compartilhada do Dropbox"
-              />
-              <Button type="button" onClick={handleAddImage}>
-                <Plus className="w-4 h-4 mr-2" />
-                Adicionar
-              </Button>
-            </div>
-            <div className="grid grid-cols-1 gap-2">
+            <MediaUploader
+              bucket="media"
+              folder="places"
+              multiple
+              label="Enviar imagens"
+              onUploaded={handleImagesUploaded}
+            />
+            <div className="grid grid-cols-3 gap-2">
               {formData.images?.map((url, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <Input value={url} readOnly />
+                <div key={index} className="relative aspect-square rounded-md overflow-hidden bg-muted">
+                  <img src={url} alt={`Imagem ${index + 1}`} className="w-full h-full object-cover" />
                   <Button
                     type="button"
                     variant="destructive"
                     size="icon"
+                    className="absolute top-1 right-1 h-7 w-7"
                     onClick={() => handleRemoveImage(url)}
                   >
                     <Trash2 className="w-4 h-4" />
@@ -255,13 +252,26 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
 
         {/* Seção de Vídeos */}
         <div className="col-span-2 space-y-2">
-          <Label>Vídeos (Dropbox ou YouTube)</Label>
+          <Label>Vídeos</Label>
           <div className="space-y-4">
+            <MediaUploader
+              bucket="media"
+              folder="places"
+              accept="video/*"
+              label="Enviar vídeo"
+              onUploaded={(urls) => {
+                media.trackUploads(urls);
+                setFormData(prev => ({
+                  ...prev,
+                  video_urls: [...(prev.video_urls || []), ...urls]
+                }));
+              }}
+            />
             <div className="flex gap-2">
               <Input
                 value={newVideoUrl}
                 onChange={(e) => setNewVideoUrl(e.target.value)}
-                placeholder="Cole a URL do Dropbox ou YouTube"
+                placeholder="Ou cole a URL do YouTube"
               />
               <Button type="button" onClick={handleAddVideo}>
                 <Plus className="w-4 h-4 mr-2" />
@@ -271,6 +281,7 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
             <div className="grid grid-cols-1 gap-2">
               {formData.video_urls?.map((url, index) => (
                 <div key={index} className="flex items-center gap-2">
+                  <VideoThumbnail url={url} />
                   <Input value={url} readOnly />
                   <Button
                     type="button"
@@ -296,15 +307,9 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
           />
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="opening_hours">Horário de Funcionamento</Label>
-          <Input
-            id="opening_hours"
-            name="opening_hours"
-            value={formData.opening_hours || ""}
-            onChange={(e) => setFormData(prev => ({ ...prev, opening_hours: e.target.value }))}
-            placeholder="Ex: Segunda a Sexta 9h às 18h"
-          />
+        <div className="space-y-2 col-span-2">
+          <Label>Horário de Funcionamento</Label>
+          <OpeningHoursEditor value={openingHours} onChange={setOpeningHours} />
         </div>
 
         <div className="space-y-2">
@@ -396,7 +401,10 @@ export const PlaceForm = ({ initialData, onSubmit, onCancel }: PlaceFormProps) =
         <Button
           type="button"
           variant="outline"
-          onClick={onCancel}
+          onClick={() => {
+            media.discard();
+            onCancel();
+          }}
         >
           Cancelar
         </Button>
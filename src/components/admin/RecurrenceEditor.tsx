@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { EventRecurrence, RecurrenceFrequency } from "@/types/events";
+import { createDefaultRecurrence, describeRecurrence, expandOccurrences } from "@/utils/eventRecurrence";
+
+interface RecurrenceEditorProps {
+  eventDate: string;
+  value: EventRecurrence | null;
+  onChange: (value: EventRecurrence | null) => void;
+}
+
+const WEEKDAY_INITIALS = ["D", "S", "T", "Q", "Q", "S", "S"];
+const WEEKDAY_OPTIONS = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: "1", label: "Primeira semana" },
+  { value: "2", label: "Segunda semana" },
+  { value: "3", label: "Terceira semana" },
+  { value: "4", label: "Quarta semana" },
+  { value: "-1", label: "Última semana" },
+];
+
+export const RecurrenceEditor = ({ eventDate, value, onChange }: RecurrenceEditorProps) => {
+  const [newException, setNewException] = useState("");
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | "none") => {
+    onChange(frequency === "none" ? null : createDefaultRecurrence(eventDate, frequency));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    const next = weekdays.includes(weekday)
+      ? weekdays.filter((day) => day !== weekday)
+      : [...weekdays, weekday].sort();
+    if (next.length === 0) return;
+    onChange({ ...value, weekdays: next });
+  };
+
+  const handleAddException = () => {
+    if (!value || !newException) return;
+    if (!value.exceptions.includes(newException)) {
+      onChange({ ...value, exceptions: [...value.exceptions, newException].sort() });
+    }
+    setNewException("");
+  };
+
+  const preview = value && eventDate
+    ? expandOccurrences(eventDate, value, parseISO(eventDate), addDays(parseISO(eventDate), 400)).slice(0, 5)
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Repetição</Label>
+          <Select value={value?.frequency || "none"} onValueChange={handleFrequencyChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Não se repete</SelectItem>
+              <SelectItem value="weekly">Semanal</SelectItem>
+              <SelectItem value="monthly">Mensal (dia da semana)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value && (
+          <div className="space-y-2">
+            <Label htmlFor="recurrence_interval">
+              A cada quantas {value.frequency === "weekly" ? "semanas" : "meses"}
+            </Label>
+            <Input
+              id="recurrence_interval"
+              type="number"
+              min={1}
+              max={12}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === "weekly" && (
+        <div className="space-y-2">
+          <Label>Dias da semana</Label>
+          <div className="flex gap-2">
+            {WEEKDAY_INITIALS.map((initial, weekday) => (
+              <Button
+                key={weekday}
+                type="button"
+                size="icon"
+                variant={value.weekdays?.includes(weekday) ? "default" : "outline"}
+                className="rounded-full"
+                title={WEEKDAY_OPTIONS[weekday]}
+                onClick={() => toggleWeekday(weekday)}
+              >
+                {initial}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value?.frequency === "monthly" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Semana do mês</Label>
+            <Select
+              value={String(value.week_of_month ?? 1)}
+              onValueChange={(week) => onChange({ ...value, week_of_month: Number(week) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_OF_MONTH_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Dia da semana</Label>
+            <Select
+              value={String(value.weekday ?? 0)}
+              onValueChange={(weekday) => onChange({ ...value, weekday: Number(weekday) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_OPTIONS.map((label, weekday) => (
+                  <SelectItem key={weekday} value={String(weekday)}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {value && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="recurrence_until">Repetir até (opcional)</Label>
+            <Input
+              id="recurrence_until"
+              type="date"
+              min={eventDate}
+              value={value.until || ""}
+              onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Datas canceladas</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                min={eventDate}
+                value={newException}
+                onChange={(e) => setNewException(e.target.value)}
+              />
+              <Button type="button" onClick={handleAddException}>
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {value.exceptions.map((date) => (
+                <span
+                  key={date}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-muted text-sm"
+                >
+                  {format(parseISO(date), "dd/MM/yyyy")}
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, exceptions: value.exceptions.filter((d) => d !== date) })}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p className="font-medium">{describeRecurrence(value)}</p>
+            <p className={cn("text-muted-foreground", preview.length === 0 && "text-destructive")}>
+              {preview.length > 0
+                ? `Próximas datas: ${preview
+                    .map((date) => format(parseISO(date), "EEE dd/MM", { locale: ptBR }))
+                    .join(", ")}`
+                : "Nenhuma data corresponde a esta regra"}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -0,0 +1,126 @@
+import "leaflet/dist/leaflet.css";
+import { useEffect, useRef, useState } from "react";
+import L from "leaflet";
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import { cn } from "@/lib/utils";
+import { useSiteConfig } from "@/hooks/useSiteConfig";
+import { clusterMarkers, type MapMarker } from "./clusterMarkers";
+import { DEFAULT_TILE_LAYER, type TileLayerConfig } from "./tileLayers";
+
+interface MapViewProps {
+  markers: MapMarker[];
+  selectedId?: string | null;
+  onSelect: (id: string) => void;
+  tileLayer?: TileLayerConfig;
+  className?: string;
+}
+
+const FALLBACK_CENTER: [number, number] = [-14.235, -51.9253];
+
+const markerIcon = (isSelected: boolean) =>
+  L.divIcon({
+    className: "",
+    html: `<div class="h-6 w-6 rounded-full border-2 border-white shadow-lg ${
+      isSelected ? "bg-red-500 scale-125" : "bg-primary"
+    }"></div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+  });
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    className: "",
+    html: `<div class="h-10 w-10 rounded-full border-2 border-white shadow-lg bg-primary text-primary-foreground flex items-center justify-center font-semibold">${count}</div>`,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20],
+  });
+
+const ClusteredMarkers = ({ markers, selectedId, onSelect }: Omit<MapViewProps, "tileLayer" | "className">) => {
+  const map = useMap();
+  const [clusters, setClusters] = useState(() => clusterMarkers(map, markers));
+
+  useMapEvents({
+    zoomend: () => setClusters(clusterMarkers(map, markers)),
+  });
+
+  useEffect(() => {
+    setClusters(clusterMarkers(map, markers));
+  }, [map, markers]);
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.markers.length === 1 ? (
+          <Marker
+            key={cluster.markers[0].id}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={markerIcon(cluster.markers[0].id === selectedId)}
+            title={cluster.markers[0].title}
+            eventHandlers={{ click: () => onSelect(cluster.markers[0].id) }}
+          />
+        ) : (
+          <Marker
+            key={cluster.key}
+            position={[cluster.latitude, cluster.longitude]}
+            icon={clusterIcon(cluster.markers.length)}
+            eventHandlers={{
+              click: () =>
+                map.flyToBounds(
+                  L.latLngBounds(cluster.markers.map((m) => [m.latitude, m.longitude])),
+                  { padding: [40, 40] }
+                ),
+            }}
+          />
+        )
+      )}
+    </>
+  );
+};
+
+// Enquadra todos os marcadores quando a lista muda
+const FitBounds = ({ markers }: { markers: MapMarker[] }) => {
+  const map = useMap();
+  const markersRef = useRef(markers);
+  const markersKey = markers.map((m) => m.id).join(",");
+
+  markersRef.current = markers;
+
+  useEffect(() => {
+    const current = markersRef.current;
+    if (current.length === 0) return;
+
+    map.fitBounds(
+      L.latLngBounds(current.map((m) => [m.latitude, m.longitude])),
+      { padding: [40, 40], maxZoom: 15 }
+    );
+  }, [map, markersKey]);
+
+  return null;
+};
+
+export const MapView = ({
+  markers,
+  selectedId,
+  onSelect,
+  tileLayer = DEFAULT_TILE_LAYER,
+  className,
+}: MapViewProps) => {
+  const { data: config } = useSiteConfig();
+
+  const center: [number, number] =
+    config?.location_lat != null && config?.location_lng != null
+      ? [config.location_lat, config.location_lng]
+      : FALLBACK_CENTER;
+
+  return (
+    <div className={cn("relative z-0 h-[60vh] w-full overflow-hidden rounded-lg shadow-lg", className)}>
+      <MapContainer center={center} zoom={13} maxZoom={tileLayer.maxZoom} className="h-full w-full">
+        <TileLayer url={tileLayer.url} attribution={tileLayer.attribution} maxZoom={tileLayer.maxZoom} />
+        <ClusteredMarkers markers={markers} selectedId={selectedId} onSelect={onSelect} />
+        <FitBounds markers={markers} />
+      </MapContainer>
+    </div>
+  );
+};
+
+export default MapView;
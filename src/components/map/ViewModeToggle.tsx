@@ -0,0 +1,23 @@
+import { List, Map } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export type ViewMode = "list" | "map";
+
+interface ViewModeToggleProps {
+  value: ViewMode;
+  onChange: (value: ViewMode) => void;
+}
+
+export const ViewModeToggle = ({ value, onChange }: ViewModeToggleProps) => (
+  <Button
+    variant="outline"
+    size="icon"
+    onClick={() => onChange(value === "list" ? "map" : "list")}
+    className="hover:scale-105 transition-transform text-foreground rounded-full shadow-lg"
+    aria-label={value === "list" ? "Ver no mapa" : "Ver em lista"}
+  >
+    {value === "list" ? <Map className="h-4 w-4" /> : <List className="h-4 w-4" />}
+  </Button>
+);
+
+export default ViewModeToggle;
@@ -0,0 +1,34 @@
+import type { Map as LeafletMap } from "leaflet";
+
+export interface MapMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  title: string;
+}
+
+export interface MarkerCluster {
+  key: string;
+  latitude: number;
+  longitude: number;
+  markers: MapMarker[];
+}
+
+// Agrupa marcadores que caem na mesma célula de uma grade em pixels no zoom atual
+export const clusterMarkers = (map: LeafletMap, markers: MapMarker[], cellSize = 60) => {
+  const zoom = map.getZoom();
+  const cells = new Map<string, MapMarker[]>();
+
+  markers.forEach((marker) => {
+    const point = map.project([marker.latitude, marker.longitude], zoom);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), marker]);
+  });
+
+  return Array.from(cells.entries()).map(([key, cellMarkers]): MarkerCluster => ({
+    key,
+    latitude: cellMarkers.reduce((sum, m) => sum + m.latitude, 0) / cellMarkers.length,
+    longitude: cellMarkers.reduce((sum, m) => sum + m.longitude, 0) / cellMarkers.length,
+    markers: cellMarkers,
+  }));
+};
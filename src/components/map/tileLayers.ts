@@ -0,0 +1,14 @@
+
+export interface TileLayerConfig {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+// Os tiles deste servidor ficam em cache no service worker (ver runtimeCaching em vite.config.ts),
+// então áreas já visitadas continuam disponíveis offline
+export const DEFAULT_TILE_LAYER: TileLayerConfig = {
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+  maxZoom: 19,
+};
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { AdminSection, PermissionType } from "@/types/permissions";
+
+// Permissões que liberam cada área do painel; owner, admin e profiles.is_admin liberam todas
+export const ADMIN_SECTION_PERMISSIONS: Record<AdminSection, PermissionType[]> = {
+  noticias: ["news_editor"],
+  eventos: ["events_editor"],
+  lugares: ["places_editor"],
+  categorias: [],
+  denuncias: [],
+  sistema: [],
+};
+
+const FULL_ACCESS_PERMISSIONS: PermissionType[] = ["owner", "admin"];
+
+export function useAdminAccess() {
+  // undefined enquanto a sessão ainda não foi lida; null sem usuário logado
+  const [userId, setUserId] = useState<string | null>();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user?.id ?? null);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user?.id ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Chave por usuário: trocar de conta não reaproveita as permissões da conta anterior
+  const query = useQuery({
+    queryKey: ["adminAccess", userId],
+    queryFn: async () => {
+      if (!userId) {
+        return { isAuthenticated: false, isAdmin: false, permissions: [] as PermissionType[] };
+      }
+
+      const [profileResult, permissionsResult] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("is_admin")
+          .eq("id", userId)
+          .single(),
+        supabase
+          .from("user_permissions")
+          .select("permission")
+          .eq("user_id", userId),
+      ]);
+
+      if (profileResult.error) throw profileResult.error;
+      if (permissionsResult.error) throw permissionsResult.error;
+
+      const permissions = permissionsResult.data.map((p) => p.permission);
+
+      return {
+        isAuthenticated: true,
+        isAdmin: !!profileResult.data?.is_admin ||
+          permissions.some((p) => FULL_ACCESS_PERMISSIONS.includes(p)),
+        permissions,
+      };
+    },
+    enabled: userId !== undefined,
+  });
+
+  const canAccess = (section: AdminSection) => {
+    if (!query.data) return false;
+    if (query.data.isAdmin) return true;
+    return ADMIN_SECTION_PERMISSIONS[section].some((p) => query.data.permissions.includes(p));
+  };
+
+  const allowedSections = (Object.keys(ADMIN_SECTION_PERMISSIONS) as AdminSection[]).filter(canAccess);
+
+  return { ...query, isLoading: userId === undefined || query.isLoading, canAccess, allowedSections };
+}
@@ -0,0 +1,122 @@
+
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ChatParticipant, ChatWithUnread, Message } from "@/types/chat";
+
+// Busca os perfis dos participantes, já que chat_participants não tem FK para profiles
+export async function attachParticipantProfiles(participants: ChatParticipant[]) {
+  const userIds = [...new Set(participants.map((p) => p.user_id))];
+  if (userIds.length === 0) return participants;
+
+  const [{ data: profiles, error }, { data: presence, error: presenceError }] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("id, username, full_name, name, avatar_url")
+      .in("id", userIds),
+    supabase
+      .from("user_presence")
+      .select("user_id, online_status, last_seen")
+      .in("user_id", userIds),
+  ]);
+
+  if (error) throw error;
+  if (presenceError) throw presenceError;
+
+  return participants.map((participant) => {
+    const profile = profiles?.find((p) => p.id === participant.user_id);
+    const status = presence?.find((p) => p.user_id === participant.user_id);
+    return {
+      ...participant,
+      profile: profile
+        ? {
+            username: profile.username,
+            avatar_url: profile.avatar_url,
+            name: profile.full_name || profile.name,
+            online_status: status?.online_status,
+            last_seen: status?.last_seen,
+          }
+        : undefined,
+    };
+  });
+}
+
+export function useChats(userId?: string) {
+  return useQuery({
+    queryKey: ["chats", userId],
+    queryFn: async () => {
+      const { data: memberships, error: membershipsError } = await supabase
+        .from("chat_participants")
+        .select("chat_id")
+        .eq("user_id", userId);
+
+      if (membershipsError) throw membershipsError;
+
+      const chatIds = memberships?.map((m) => m.chat_id) || [];
+      if (chatIds.length === 0) return [] as ChatWithUnread[];
+
+      const { data: chats, error: chatsError } = await supabase
+        .from("chats")
+        .select("*, chat_participants(*), messages(*)")
+        .in("id", chatIds)
+        .order("updated_at", { ascending: false })
+        .order("created_at", { referencedTable: "messages", ascending: false })
+        .limit(1, { referencedTable: "messages" });
+
+      if (chatsError) throw chatsError;
+
+      const { data: unreadCounts, error: unreadError } = await supabase.rpc("get_chat_unread_counts");
+      if (unreadError) throw unreadError;
+
+      const participants = await attachParticipantProfiles(
+        (chats || []).flatMap((chat) => chat.chat_participants as ChatParticipant[])
+      );
+
+      return (chats || []).map((chat) => ({
+        id: chat.id,
+        created_at: chat.created_at,
+        updated_at: chat.updated_at,
+        participants: participants.filter((p) => p.chat_id === chat.id),
+        messages: chat.messages as Message[],
+        unread_count: unreadCounts?.find((u) => u.chat_id === chat.id)?.unread_count || 0,
+      })) as ChatWithUnread[];
+    },
+    enabled: !!userId,
+  });
+}
+
+export function useUnreadMessages(userId?: string) {
+  const queryClient = useQueryClient();
+
+  // O RLS de messages limita os eventos às conversas das quais o usuário participa
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`unread-messages-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["unreadMessages"] });
+          queryClient.invalidateQueries({ queryKey: ["chats"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  return useQuery({
+    queryKey: ["unreadMessages", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_chat_unread_counts");
+      if (error) throw error;
+
+      return (data || []).reduce((total, chat) => total + Number(chat.unread_count), 0);
+    },
+    enabled: !!userId,
+  });
+}
@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSessionUserId } from "@/hooks/useSessionUser";
+
+export type FavoriteType = "product" | "event" | "place" | "news";
+
+export const FAVORITE_COLUMNS = {
+  product: "product_id",
+  event: "event_id",
+  place: "place_id",
+  news: "news_id",
+} as const satisfies Record<FavoriteType, string>;
+
+type FavoriteRow = {
+  id: string;
+  product_id: string | null;
+  event_id: string | null;
+  place_id: string | null;
+  news_id: string | null;
+};
+
+const FAVORITES_QUERY_KEY = ["favorites"];
+
+export const FAVORITE_LOGIN_REQUIRED = "Faça login para salvar itens";
+
+// Todos os favoritos do usuário logado, compartilhados por todos os cards da página
+export function useFavoriteIds() {
+  const { data: userId } = useSessionUserId();
+
+  // Chave por usuário: trocar de conta não reaproveita os favoritos da conta anterior
+  return useQuery({
+    queryKey: [...FAVORITES_QUERY_KEY, userId],
+    queryFn: async (): Promise<FavoriteRow[]> => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from("favorites")
+        .select("id, product_id, event_id, place_id, news_id")
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: userId !== undefined,
+  });
+}
+
+export function useFavorite(type: FavoriteType, itemId: string) {
+  const queryClient = useQueryClient();
+  const { data: favorites = [] } = useFavoriteIds();
+  const column = FAVORITE_COLUMNS[type];
+  const isFavorite = favorites.some((favorite) => favorite[column] === itemId);
+
+  const toggle = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error(FAVORITE_LOGIN_REQUIRED);
+      }
+
+      const { error } = isFavorite
+        ? await supabase
+            .from("favorites")
+            .delete()
+            .eq("user_id", session.user.id)
+            .eq(column, itemId)
+        : await supabase
+            .from("favorites")
+            .insert({ user_id: session.user.id, [column]: itemId });
+
+      if (error) throw error;
+      return !isFavorite;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: FAVORITES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["saved-items"] });
+    },
+  });
+
+  return { isFavorite, toggle };
+}
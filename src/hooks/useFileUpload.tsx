@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { uploadToStorage, type UploadOptions, type UploadedFile } from "@/utils/storageUpload";
+
+export interface UploadProgress {
+  id: string;
+  fileName: string;
+  progress: number;
+}
+
+// Envia vários arquivos em sequência, acompanhando o progresso de cada um
+export function useFileUpload(options: Omit<UploadOptions, "onProgress">) {
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+
+  const upload = async (files: File[]) => {
+    const entries = files.map((file) => ({
+      id: crypto.randomUUID(),
+      fileName: file.name,
+      progress: 0,
+    }));
+    setUploads((prev) => [...prev, ...entries]);
+
+    const results: UploadedFile[] = [];
+    const errors: Error[] = [];
+
+    for (const [index, file] of files.entries()) {
+      const entryId = entries[index].id;
+      try {
+        results.push(
+          await uploadToStorage(file, {
+            ...options,
+            onProgress: (progress) =>
+              setUploads((prev) => prev.map((u) => (u.id === entryId ? { ...u, progress } : u))),
+          })
+        );
+      } catch (error) {
+        errors.push(error as Error);
+      } finally {
+        setUploads((prev) => prev.filter((u) => u.id !== entryId));
+      }
+    }
+
+    return { results, errors };
+  };
+
+  return { upload, uploads, isUploading: uploads.length > 0 };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { deleteUploadedFile } from "@/utils/storageUpload";
+
+const deleteFiles = (urls: string[]) => {
+  urls.forEach((url) =>
+    deleteUploadedFile(url).catch((error) => console.error("Error deleting uploaded file:", error))
+  );
+};
+
+// Mídias removidas em um formulário só são apagadas do Storage depois que ele é salvo:
+// cancelar, sair da página ou falhar ao salvar mantém os arquivos que o item publicado usa.
+// Envios feitos durante a edição e nunca salvos são apagados ao descartar o formulário.
+export function useMediaCleanup() {
+  // URLs já salvas no item, com as quais o formulário foi carregado
+  const savedUrlsRef = useRef<string[]>([]);
+  // URLs enviadas desde o carregamento ou o último salvamento
+  const uploadedUrlsRef = useRef<string[]>([]);
+  const savingRef = useRef(false);
+  const discardRequestedRef = useRef(false);
+
+  const trackUploads = useCallback((urls: string[]) => {
+    uploadedUrlsRef.current = [...uploadedUrlsRef.current, ...urls];
+  }, []);
+
+  // Descarta as alterações: apaga apenas os envios que nunca foram salvos.
+  // Durante um salvamento (o formulário pode fechar antes de ele terminar) a decisão fica para o fim.
+  const discard = useCallback(() => {
+    if (savingRef.current) {
+      discardRequestedRef.current = true;
+      return;
+    }
+
+    deleteFiles(uploadedUrlsRef.current.filter((url) => !savedUrlsRef.current.includes(url)));
+    uploadedUrlsRef.current = [];
+  }, []);
+
+  // Carrega um item (ou um formulário vazio), descartando envios pendentes do anterior
+  const reset = useCallback((savedUrls: string[]) => {
+    discard();
+    savedUrlsRef.current = savedUrls;
+  }, [discard]);
+
+  // Executa o salvamento e, se ele der certo, apaga o que ficou de fora de keptUrls:
+  // URLs salvas antes e removidas na edição, e envios que não chegaram a ser usados
+  const save = useCallback(async (keptUrls: string[], submit: () => Promise<boolean>) => {
+    const uploadedUrls = uploadedUrlsRef.current;
+    const removedUrls = [...savedUrlsRef.current, ...uploadedUrls].filter((url) => !keptUrls.includes(url));
+
+    savingRef.current = true;
+    discardRequestedRef.current = false;
+    let saved = false;
+    try {
+      saved = await submit();
+    } finally {
+      savingRef.current = false;
+      if (!saved && discardRequestedRef.current) {
+        discard();
+      }
+    }
+
+    if (saved) {
+      deleteFiles(removedUrls);
+      uploadedUrlsRef.current = uploadedUrlsRef.current.filter((url) => !uploadedUrls.includes(url));
+      // Se outro item foi carregado enquanto salvava, as URLs salvas já são as dele
+      if (!discardRequestedRef.current) {
+        savedUrlsRef.current = keptUrls;
+      }
+    }
+
+    return saved;
+  }, [discard]);
+
+  // Sair sem salvar também descarta os envios pendentes
+  useEffect(() => discard, [discard]);
+
+  return useMemo(
+    () => ({ trackUploads, discard, reset, save }),
+    [trackUploads, discard, reset, save]
+  );
+}
@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type NotificationPreferences = Omit<
+  Tables<"notification_preferences">,
+  "user_id" | "updated_at" | "digest_token" | "last_digest_sent_at" | "last_digest_attempt_at"
+>;
+
+// Tipos de conteúdo com chave própria nas preferências
+export type NotificationTopic = "news" | "events" | "places" | "products";
+
+export const NOTIFICATION_TOPIC_LABELS: Record<NotificationTopic, string> = {
+  news: "Notícias",
+  events: "Eventos",
+  places: "Lugares",
+  products: "Alertas de buscas salvas",
+};
+
+// Mesmos valores padrão da tabela: sem registro, o usuário recebe tudo
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  news: true,
+  events: true,
+  places: true,
+  products: true,
+  category_ids: [],
+  location_ids: [],
+  // Resumo semanal por e-mail é opt-in
+  email_digest: false,
+};
+
+export const NOTIFICATION_LOGIN_REQUIRED = "Faça login para configurar as notificações";
+
+const PREFERENCES_QUERY_KEY = ["notification-preferences"];
+
+export function useNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: PREFERENCES_QUERY_KEY,
+    queryFn: async (): Promise<NotificationPreferences | null> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return null;
+
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("news, events, places, products, category_ids, location_ids, email_digest")
+        .eq("user_id", session.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ?? DEFAULT_NOTIFICATION_PREFERENCES;
+    },
+  });
+
+  const update = useMutation({
+    mutationFn: async (changes: Partial<NotificationPreferences>) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error(NOTIFICATION_LOGIN_REQUIRED);
+      }
+
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({
+          ...(query.data ?? DEFAULT_NOTIFICATION_PREFERENCES),
+          ...changes,
+          user_id: session.user.id,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    },
+    // Atualização otimista para os switches responderem na hora
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey: PREFERENCES_QUERY_KEY });
+      const previous = queryClient.getQueryData<NotificationPreferences | null>(PREFERENCES_QUERY_KEY);
+      if (previous) {
+        queryClient.setQueryData(PREFERENCES_QUERY_KEY, { ...previous, ...changes });
+      }
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(PREFERENCES_QUERY_KEY, context.previous);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: PREFERENCES_QUERY_KEY }),
+  });
+
+  return { ...query, update };
+}
@@ -0,0 +1,140 @@
+import { useEffect } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Notification } from "@/types/notifications";
+
+export const NOTIFICATIONS_PAGE_SIZE = 30;
+
+interface NotificationCursor {
+  created_at: string;
+  id: string;
+}
+
+interface NotificationPage {
+  notifications: Notification[];
+  nextCursor: NotificationCursor | null;
+}
+
+// Lista paginada por cursor (created_at, id), da mais recente para a mais antiga
+export function useNotifications(userId?: string) {
+  return useInfiniteQuery({
+    queryKey: ["notifications", userId],
+    initialPageParam: null as NotificationCursor | null,
+    getNextPageParam: (lastPage: NotificationPage) => lastPage.nextCursor,
+    queryFn: async ({ pageParam }): Promise<NotificationPage> => {
+      let query = supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId!);
+
+      if (pageParam) {
+        query = query.or(
+          `created_at.lt."${pageParam.created_at}",and(created_at.eq."${pageParam.created_at}",id.lt.${pageParam.id})`
+        );
+      }
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(NOTIFICATIONS_PAGE_SIZE);
+
+      if (error) throw error;
+
+      const notifications = data as Notification[];
+      const last = notifications[notifications.length - 1];
+
+      return {
+        notifications,
+        nextCursor: notifications.length === NOTIFICATIONS_PAGE_SIZE && last
+          ? { created_at: last.created_at, id: last.id }
+          : null,
+      };
+    },
+    enabled: !!userId,
+  });
+}
+
+export function useUnreadNotifications(userId?: string) {
+  const queryClient = useQueryClient();
+
+  // Qualquer mudança nas notificações do usuário (novas, lidas, excluídas) atualiza o contador.
+  // Cada chamada usa um canal próprio: Notify e BottomNav montam o hook na mesma tela, e dois
+  // canais com o mesmo tópico fariam o servidor encerrar o primeiro.
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}-${crypto.randomUUID()}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["unreadNotifications"] });
+          queryClient.invalidateQueries({ queryKey: ["notifications"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  return useQuery({
+    queryKey: ["unreadNotifications", userId],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("*", { count: "exact", head: true })
+        .eq("user_id", userId!)
+        .eq("read", false);
+
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled: !!userId,
+  });
+}
+
+export function useNotificationActions(userId?: string) {
+  const queryClient = useQueryClient();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["unreadNotifications"] });
+  };
+
+  // ids ausente marca todas as notificações do usuário
+  const markAsRead = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      let query = supabase
+        .from("notifications")
+        .update({ read: true })
+        .eq("user_id", userId!)
+        .eq("read", false);
+
+      if (ids) {
+        query = query.in("id", ids);
+      }
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+    onSettled: refresh,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from("notifications")
+        .delete()
+        .eq("user_id", userId!)
+        .in("id", ids);
+
+      if (error) throw error;
+    },
+    onSettled: refresh,
+  });
+
+  return { markAsRead, remove };
+}
@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Intervalo de renovação de last_seen enquanto o app está visível
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Sem renovação nesse prazo (aba fechada, sem rede) o usuário é considerado offline
+export const PRESENCE_TIMEOUT_MS = 2 * HEARTBEAT_INTERVAL_MS + 30 * 1000;
+
+export const isUserOnline = (presence?: { online_status?: boolean; last_seen?: string }) =>
+  !!presence?.online_status &&
+  !!presence.last_seen &&
+  Date.now() - new Date(presence.last_seen).getTime() < PRESENCE_TIMEOUT_MS;
+
+// Mantém user_presence atualizado para o usuário logado
+export function useOnlineStatus() {
+  useEffect(() => {
+    let userId: string | null = null;
+
+    const setStatus = async (online: boolean) => {
+      if (!userId) return;
+
+      const { error } = await supabase
+        .from("user_presence")
+        .upsert({
+          user_id: userId,
+          online_status: online,
+          last_seen: new Date().toISOString(),
+        });
+
+      if (error) {
+        console.error("Error updating online status:", error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      setStatus(document.visibilityState === "visible");
+    };
+
+    const heartbeat = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        setStatus(true);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      userId = session?.user?.id ?? null;
+      setStatus(true);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        if (event === "SIGNED_IN") {
+          userId = session?.user?.id ?? null;
+          setStatus(true);
+        } else if (event === "SIGNED_OUT") {
+          userId = null;
+        }
+      }
+    );
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+}
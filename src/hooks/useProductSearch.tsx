@@ -0,0 +1,139 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Product, ProductSearchFilters, ProductWithDistance } from "@/types/products";
+
+export const PRODUCTS_PAGE_SIZE = 20;
+// Ids por requisição na busca por raio, para manter a URL do filtro .in() curta
+const NEARBY_CHUNK_SIZE = 100;
+
+export type ProductSearchResult = Product & Partial<Pick<ProductWithDistance, "distance">>;
+
+interface ProductCursor {
+  created_at: string;
+  id: string;
+}
+
+// Na busca por raio o cursor é a posição na lista de ids ordenada por distância
+type ProductPageParam = ProductCursor | number;
+
+interface ProductSearchPage {
+  products: ProductSearchResult[];
+  nextCursor: ProductPageParam | null;
+}
+
+// search_vector é gerado com f_unaccent, então o termo também é buscado sem acentos
+export const normalizeSearchTerm = (term: string) =>
+  term.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim();
+
+export function useProductSearch(filters: ProductSearchFilters) {
+  return useInfiniteQuery({
+    queryKey: ["products", filters],
+    initialPageParam: null as ProductPageParam | null,
+    getNextPageParam: (lastPage: ProductSearchPage) => lastPage.nextCursor,
+    queryFn: async ({ pageParam }): Promise<ProductSearchPage> => {
+      // Apenas anúncios ativos e dentro do prazo aparecem nas buscas públicas
+      const buildQuery = () => {
+        let query = supabase
+          .from("products")
+          .select("*, profiles(full_name, avatar_url, rating_average, rating_count)")
+          .eq("status", "active")
+          .gt("expires_at", new Date().toISOString());
+
+        const searchTerm = normalizeSearchTerm(filters.searchTerm || "");
+        if (searchTerm) {
+          query = query.textSearch("search_vector", searchTerm, {
+            config: "portuguese",
+            type: "websearch",
+          });
+        }
+
+        if (filters.categoryId) {
+          query = query.eq("category_id", filters.categoryId);
+        }
+
+        if (filters.condition) {
+          query = query.eq("condition", filters.condition);
+        }
+
+        if (filters.minPrice != null) {
+          query = query.gte("price", filters.minPrice);
+        }
+
+        if (filters.maxPrice != null) {
+          query = query.lte("price", filters.maxPrice);
+        }
+
+        if (filters.postedWithinDays) {
+          const since = new Date();
+          since.setDate(since.getDate() - filters.postedWithinDays);
+          query = query.gte("created_at", since.toISOString());
+        }
+
+        return query;
+      };
+
+      // Busca por raio: os ids próximos, ordenados pela distância, são percorridos em blocos
+      // a partir da posição do cursor até completar uma página
+      if (filters.origin) {
+        const { data: nearby, error: nearbyError } = await supabase.rpc("search_products_by_location", {
+          search_lat: filters.origin.latitude,
+          search_lon: filters.origin.longitude,
+          radius_in_meters: (filters.radiusKm || 5) * 1000,
+        });
+
+        if (nearbyError) throw nearbyError;
+
+        const sorted = [...(nearby || [])].sort((a, b) => a.distance - b.distance);
+        const products: ProductSearchResult[] = [];
+        let offset = typeof pageParam === "number" ? pageParam : 0;
+
+        while (products.length < PRODUCTS_PAGE_SIZE && offset < sorted.length) {
+          const chunk = sorted.slice(offset, offset + NEARBY_CHUNK_SIZE);
+          const { data, error } = await buildQuery().in("id", chunk.map((p) => p.id));
+          if (error) throw error;
+
+          for (const item of chunk) {
+            if (products.length === PRODUCTS_PAGE_SIZE) break;
+            offset++;
+
+            const product = (data as Product[]).find((p) => p.id === item.id);
+            if (product) {
+              products.push({ ...product, distance: item.distance });
+            }
+          }
+        }
+
+        return { products, nextCursor: offset < sorted.length ? offset : null };
+      }
+
+      let query = buildQuery();
+
+      if (filters.locationId) {
+        query = query.eq("location_id", filters.locationId);
+      }
+
+      if (pageParam && typeof pageParam !== "number") {
+        query = query.or(
+          `created_at.lt."${pageParam.created_at}",and(created_at.eq."${pageParam.created_at}",id.lt.${pageParam.id})`
+        );
+      }
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(PRODUCTS_PAGE_SIZE);
+
+      if (error) throw error;
+
+      const products = data as Product[];
+      const last = products[products.length - 1];
+
+      return {
+        products,
+        nextCursor: products.length === PRODUCTS_PAGE_SIZE && last
+          ? { created_at: last.created_at, id: last.id }
+          : null,
+      };
+    },
+  });
+}
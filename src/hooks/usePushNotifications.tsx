@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSiteConfig } from "@/hooks/useSiteConfig";
+import {
+  isPushSupported,
+  subscribeToPush,
+  syncPushSubscription,
+  unsubscribeFromPush,
+} from "@/utils/pushNotifications";
+
+const PUSH_QUERY_KEY = ["push-subscription"];
+
+// Estado das notificações push neste aparelho
+export function usePushNotifications() {
+  const queryClient = useQueryClient();
+  const { data: siteConfig } = useSiteConfig();
+  const vapidPublicKey = siteConfig?.vapid_public_key;
+  const isSupported = isPushSupported() && !!vapidPublicKey;
+
+  const query = useQuery({
+    queryKey: PUSH_QUERY_KEY,
+    queryFn: async () => {
+      try {
+        return !!(await syncPushSubscription());
+      } catch (error) {
+        console.error("Error syncing push subscription:", error);
+        return false;
+      }
+    },
+    enabled: isSupported,
+  });
+
+  const enable = useMutation({
+    mutationFn: () => subscribeToPush(vapidPublicKey!),
+    onSuccess: () => queryClient.setQueryData(PUSH_QUERY_KEY, true),
+  });
+
+  const disable = useMutation({
+    mutationFn: unsubscribeFromPush,
+    onSuccess: () => queryClient.setQueryData(PUSH_QUERY_KEY, false),
+  });
+
+  return {
+    isSupported,
+    isSubscribed: !!query.data,
+    isBlocked: isSupported && Notification.permission === "denied",
+    isPending: query.isLoading || enable.isPending || disable.isPending,
+    enable,
+    disable,
+  };
+}
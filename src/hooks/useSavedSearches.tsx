@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type SavedSearch = Tables<"saved_searches"> & {
+  categories: { name: string } | null;
+  locations: { name: string } | null;
+};
+
+export type SavedSearchInput = Omit<TablesInsert<"saved_searches">, "id" | "user_id" | "created_at">;
+
+const SAVED_SEARCHES_QUERY_KEY = ["saved-searches"];
+
+export const SAVED_SEARCH_LOGIN_REQUIRED = "Faça login para salvar buscas";
+
+export function useSavedSearches() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: SAVED_SEARCHES_QUERY_KEY,
+    queryFn: async (): Promise<SavedSearch[]> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return [];
+
+      const { data, error } = await supabase
+        .from("saved_searches")
+        .select("*, categories(name), locations(name)")
+        .eq("user_id", session.user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_QUERY_KEY });
+
+  const save = useMutation({
+    mutationFn: async (search: SavedSearchInput) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error(SAVED_SEARCH_LOGIN_REQUIRED);
+      }
+
+      const { error } = await supabase
+        .from("saved_searches")
+        .insert({ ...search, user_id: session.user.id });
+
+      if (error) throw error;
+    },
+    onSettled: invalidate,
+  });
+
+  const setNotify = useMutation({
+    mutationFn: async ({ id, notify }: { id: string; notify: boolean }) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ notify })
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSettled: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("saved_searches")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSettled: invalidate,
+  });
+
+  return { ...query, save, setNotify, remove };
+}
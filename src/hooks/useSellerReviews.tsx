@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface SellerReview {
+  id: string;
+  seller_id: string;
+  reviewer_id: string;
+  product_id: string | null;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+  reviewer: {
+    full_name: string | null;
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export interface SellerReviewInput {
+  rating: number;
+  comment: string;
+  productId?: string;
+}
+
+export function useSellerReviews(sellerId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const reviews = useQuery({
+    queryKey: ["seller-reviews", sellerId],
+    enabled: !!sellerId,
+    queryFn: async (): Promise<SellerReview[]> => {
+      const { data, error } = await supabase
+        .from("seller_reviews")
+        .select("*, reviewer:profiles!seller_reviews_reviewer_id_fkey(full_name, username, avatar_url)")
+        .eq("seller_id", sellerId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Só quem já mandou mensagem ao vendedor pode avaliá-lo
+  const eligibility = useQuery({
+    queryKey: ["seller-review-eligibility", sellerId],
+    enabled: !!sellerId,
+    queryFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session || session.user.id === sellerId) {
+        return { userId: session?.user.id ?? null, canReview: false };
+      }
+
+      const { data, error } = await supabase.rpc("has_contacted_seller", {
+        seller_id_param: sellerId!,
+      });
+
+      if (error) throw error;
+      return { userId: session.user.id, canReview: data };
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["seller-reviews", sellerId] });
+    // Médias exibidas nos cards e na página do produto
+    queryClient.invalidateQueries({ queryKey: ["product"] });
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+  };
+
+  const submit = useMutation({
+    mutationFn: async ({ rating, comment, productId }: SellerReviewInput) => {
+      const reviewerId = eligibility.data?.userId;
+      if (!reviewerId || !sellerId) {
+        throw new Error("Faça login para avaliar o vendedor");
+      }
+
+      const { error } = await supabase
+        .from("seller_reviews")
+        .upsert(
+          {
+            seller_id: sellerId,
+            reviewer_id: reviewerId,
+            product_id: productId ?? null,
+            rating,
+            comment: comment.trim() || null,
+          },
+          { onConflict: "seller_id,reviewer_id" }
+        );
+
+      if (error) throw error;
+    },
+    onSettled: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const { error } = await supabase
+        .from("seller_reviews")
+        .delete()
+        .eq("id", reviewId);
+
+      if (error) throw error;
+    },
+    onSettled: invalidate,
+  });
+
+  const myReview = reviews.data?.find((review) => review.reviewer_id === eligibility.data?.userId);
+
+  return {
+    reviews,
+    myReview,
+    canReview: !!eligibility.data?.canReview,
+    submit,
+    remove,
+  };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Mantido em dia pelo AuthWrapper a cada mudança de sessão
+export const SESSION_USER_QUERY_KEY = ["sessionUser"];
+
+// Id do usuário logado (null sem login), compartilhado pelo cache entre todos os componentes.
+// Serve para escopar por usuário as chaves de outras consultas.
+export function useSessionUserId() {
+  return useQuery({
+    queryKey: SESSION_USER_QUERY_KEY,
+    queryFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      return session?.user?.id ?? null;
+    },
+    staleTime: Infinity,
+  });
+}
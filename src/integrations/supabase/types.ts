@@ -103,6 +103,63 @@ export type Database = {
         }
         Relationships: []
       }
+      content_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
           additional_photos: string[] | null
@@ -122,13 +179,17 @@ export type Database = {
           id: string
           image: string | null
           images: string[] | null
+          is_hidden: boolean
           location: string | null
           maps_url: string | null
           numero_whatsapp_events: string | null
           owner_name: string | null
           phone: string | null
+          recurrence: Json | null
+          sequence: number
           social_media: Json | null
           title: string
+          updated_at: string | null
           url_maps_events: string | null
           user_id: string | null
           video_url: string | null
@@ -154,13 +215,17 @@ export type Database = {
           id?: string
           image?: string | null
           images?: string[] | null
+          is_hidden?: boolean
           location?: string | null
           maps_url?: string | null
           numero_whatsapp_events?: string | null
           owner_name?: string | null
           phone?: string | null
+          recurrence?: Json | null
+          sequence?: number
           social_media?: Json | null
           title: string
+          updated_at?: string | null
           url_maps_events?: string | null
           user_id?: string | null
           video_url?: string | null
@@ -186,13 +251,17 @@ export type Database = {
           id?: string
           image?: string | null
           images?: string[] | null
+          is_hidden?: boolean
           location?: string | null
           maps_url?: string | null
           numero_whatsapp_events?: string | null
           owner_name?: string | null
           phone?: string | null
+          recurrence?: Json | null
+          sequence?: number
           social_media?: Json | null
           title?: string
+          updated_at?: string | null
           url_maps_events?: string | null
           user_id?: string | null
           video_url?: string | null
@@ -220,23 +289,53 @@ export type Database = {
       favorites: {
         Row: {
           created_at: string | null
+          event_id: string | null
           id: string
+          news_id: string | null
+          place_id: string | null
           product_id: string | null
           user_id: string | null
         }
         Insert: {
           created_at?: string | null
+          event_id?: string | null
           id?: string
+          news_id?: string | null
+          place_id?: string | null
           product_id?: string | null
           user_id?: string | null
         }
         Update: {
           created_at?: string | null
+          event_id?: string | null
           id?: string
+          news_id?: string | null
+          place_id?: string | null
           product_id?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "favorites_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorites_news_id_fkey"
+            columns: ["news_id"]
+            isOneToOne: false
+            referencedRelation: "news"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "favorites_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "favorites_product_id_fkey"
             columns: ["product_id"]
@@ -248,6 +347,7 @@ export type Database = {
       }
       files: {
         Row: {
+          bucket: string | null
           created_at: string
           file_name: string
           file_path: string
@@ -256,8 +356,10 @@ export type Database = {
           size: number | null
           updated_at: string
           user_id: string | null
+          variants: Json | null
         }
         Insert: {
+          bucket?: string | null
           created_at?: string
           file_name: string
           file_path: string
@@ -266,8 +368,10 @@ export type Database = {
           size?: number | null
           updated_at?: string
           user_id?: string | null
+          variants?: Json | null
         }
         Update: {
+          bucket?: string | null
           created_at?: string
           file_name?: string
           file_path?: string
@@ -276,6 +380,7 @@ export type Database = {
           size?: number | null
           updated_at?: string
           user_id?: string | null
+          variants?: Json | null
         }
         Relationships: []
       }
@@ -283,18 +388,24 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          latitude: number | null
+          longitude: number | null
           name: string
           state: string
         }
         Insert: {
           created_at?: string
           id?: string
+          latitude?: number | null
+          longitude?: number | null
           name: string
           state: string
         }
         Update: {
           created_at?: string
           id?: string
+          latitude?: number | null
+          longitude?: number | null
           name?: string
           state?: string
         }
@@ -397,6 +508,89 @@ export type Database = {
           },
         ]
       }
+      notification_broadcasts: {
+        Row: {
+          completed_at: string | null
+          content_type: string
+          created_at: string
+          id: string
+          last_user_id: string | null
+          notified_count: number
+          reference_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          content_type: string
+          created_at?: string
+          id?: string
+          last_user_id?: string | null
+          notified_count?: number
+          reference_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          content_type?: string
+          created_at?: string
+          id?: string
+          last_user_id?: string | null
+          notified_count?: number
+          reference_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          category_ids: string[]
+          digest_token: string
+          email_digest: boolean
+          events: boolean
+          last_digest_attempt_at: string | null
+          last_digest_sent_at: string | null
+          location_ids: string[]
+          news: boolean
+          places: boolean
+          products: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category_ids?: string[]
+          digest_token?: string
+          email_digest?: boolean
+          events?: boolean
+          last_digest_attempt_at?: string | null
+          last_digest_sent_at?: string | null
+          location_ids?: string[]
+          news?: boolean
+          places?: boolean
+          products?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category_ids?: string[]
+          digest_token?: string
+          email_digest?: boolean
+          events?: boolean
+          last_digest_attempt_at?: string | null
+          last_digest_sent_at?: string | null
+          location_ids?: string[]
+          news?: boolean
+          places?: boolean
+          products?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           created_at: string | null
@@ -457,6 +651,7 @@ export type Database = {
           image_id: string | null
           images: string[] | null
           images_ids: string[] | null
+          is_hidden: boolean
           latitude: number | null
           longitude: number | null
           maps_url: string | null
@@ -486,6 +681,7 @@ export type Database = {
           image_id?: string | null
           images?: string[] | null
           images_ids?: string[] | null
+          is_hidden?: boolean
           latitude?: number | null
           longitude?: number | null
           maps_url?: string | null
@@ -515,6 +711,7 @@ export type Database = {
           image_id?: string | null
           images?: string[] | null
           images_ids?: string[] | null
+          is_hidden?: boolean
           latitude?: number | null
           longitude?: number | null
           maps_url?: string | null
@@ -720,13 +917,17 @@ export type Database = {
           condition: string
           created_at: string | null
           description: string
+          expires_at: string | null
           id: string
           images: string[] | null
+          is_hidden: boolean
           latitude: number | null
           location_id: string | null
           location_name: string | null
           longitude: number | null
           price: number
+          search_vector: unknown | null
+          status: string
           title: string
           updated_at: string | null
           user_id: string
@@ -738,13 +939,17 @@ export type Database = {
           condition: string
           created_at?: string | null
           description: string
+          expires_at?: string | null
           id?: string
           images?: string[] | null
+          is_hidden?: boolean
           latitude?: number | null
           location_id?: string | null
           location_name?: string | null
           longitude?: number | null
           price: number
+          search_vector?: unknown | null
+          status?: string
           title: string
           updated_at?: string | null
           user_id: string
@@ -756,13 +961,17 @@ export type Database = {
           condition?: string
           created_at?: string | null
           description?: string
+          expires_at?: string | null
           id?: string
           images?: string[] | null
+          is_hidden?: boolean
           latitude?: number | null
           location_id?: string | null
           location_name?: string | null
           longitude?: number | null
           price?: number
+          search_vector?: unknown | null
+          status?: string
           title?: string
           updated_at?: string | null
           user_id?: string
@@ -818,6 +1027,8 @@ export type Database = {
           online_status: boolean | null
           phone: string | null
           postal_code: string | null
+          rating_average: number | null
+          rating_count: number
           scheduled_deletion_date: string | null
           status: string | null
           street: string | null
@@ -850,6 +1061,8 @@ export type Database = {
           online_status?: boolean | null
           phone?: string | null
           postal_code?: string | null
+          rating_average?: number | null
+          rating_count?: number
           scheduled_deletion_date?: string | null
           status?: string | null
           street?: string | null
@@ -882,6 +1095,8 @@ export type Database = {
           online_status?: boolean | null
           phone?: string | null
           postal_code?: string | null
+          rating_average?: number | null
+          rating_count?: number
           scheduled_deletion_date?: string | null
           status?: string | null
           street?: string | null
@@ -900,6 +1115,175 @@ export type Database = {
           },
         ]
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_searches: {
+        Row: {
+          category_id: string | null
+          condition: string | null
+          created_at: string
+          id: string
+          latitude: number | null
+          location_id: string | null
+          longitude: number | null
+          max_price: number | null
+          min_price: number | null
+          name: string
+          notify: boolean
+          radius_km: number | null
+          search_term: string | null
+          user_id: string
+        }
+        Insert: {
+          category_id?: string | null
+          condition?: string | null
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          location_id?: string | null
+          longitude?: number | null
+          max_price?: number | null
+          min_price?: number | null
+          name: string
+          notify?: boolean
+          radius_km?: number | null
+          search_term?: string | null
+          user_id: string
+        }
+        Update: {
+          category_id?: string | null
+          condition?: string | null
+          created_at?: string
+          id?: string
+          latitude?: number | null
+          location_id?: string | null
+          longitude?: number | null
+          max_price?: number | null
+          min_price?: number | null
+          name?: string
+          notify?: boolean
+          radius_km?: number | null
+          search_term?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_searches_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seller_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          product_id: string | null
+          rating: number
+          reviewer_id: string
+          seller_id: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          product_id?: string | null
+          rating: number
+          reviewer_id: string
+          seller_id: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          product_id?: string | null
+          rating?: number
+          reviewer_id?: string
+          seller_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seller_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seller_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seller_reviews_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       site_configuration: {
         Row: {
           admin_accent_color: string | null
@@ -958,6 +1342,7 @@ export type Database = {
           primary_color: string | null
           product_card_primary_color: string | null
           product_card_secondary_color: string | null
+          product_expiration_days: number
           product_location_color: string | null
           product_page_background_color: string | null
           product_price_color: string | null
@@ -974,6 +1359,7 @@ export type Database = {
           text_color: string | null
           theme_name: string | null
           updated_at: string | null
+          vapid_public_key: string | null
           version: number | null
           weather_api_key: string | null
           whatsapp_message: string | null
@@ -1035,6 +1421,7 @@ export type Database = {
           primary_color?: string | null
           product_card_primary_color?: string | null
           product_card_secondary_color?: string | null
+          product_expiration_days?: number
           product_location_color?: string | null
           product_page_background_color?: string | null
           product_price_color?: string | null
@@ -1051,6 +1438,7 @@ export type Database = {
           text_color?: string | null
           theme_name?: string | null
           updated_at?: string | null
+          vapid_public_key?: string | null
           version?: number | null
           weather_api_key?: string | null
           whatsapp_message?: string | null
@@ -1112,6 +1500,7 @@ export type Database = {
           primary_color?: string | null
           product_card_primary_color?: string | null
           product_card_secondary_color?: string | null
+          product_expiration_days?: number
           product_location_color?: string | null
           product_page_background_color?: string | null
           product_price_color?: string | null
@@ -1128,6 +1517,7 @@ export type Database = {
           text_color?: string | null
           theme_name?: string | null
           updated_at?: string | null
+          vapid_public_key?: string | null
           version?: number | null
           weather_api_key?: string | null
           whatsapp_message?: string | null
@@ -1284,6 +1674,71 @@ export type Database = {
         }
         Relationships: []
       }
+      user_permissions: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          permission: Database["public"]["Enums"]["permission_type"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission: Database["public"]["Enums"]["permission_type"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          permission?: Database["public"]["Enums"]["permission_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_permissions_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_presence: {
+        Row: {
+          last_seen: string
+          online_status: boolean
+          user_id: string
+        }
+        Insert: {
+          last_seen?: string
+          online_status?: boolean
+          user_id: string
+        }
+        Update: {
+          last_seen?: string
+          online_status?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_presence_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       geography_columns: {
@@ -1727,6 +2182,19 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      dispatch_weekly_digest: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      distance_km: {
+        Args: {
+          lat1: number
+          lon1: number
+          lat2: number
+          lon2: number
+        }
+        Returns: number
+      }
       dropgeometrycolumn:
         | {
             Args: {
@@ -1789,6 +2257,18 @@ export type Database = {
         }
         Returns: boolean
       }
+      event_occurs_on: {
+        Args: {
+          event_date: string
+          recurrence: Json
+          on_date: string
+        }
+        Returns: boolean
+      }
+      expire_products: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       gc_to_sec: {
         Args: {
           "": number
@@ -2200,12 +2680,30 @@ export type Database = {
         }
         Returns: unknown
       }
+      get_chat_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          chat_id: string
+          unread_count: number
+        }[]
+      }
+      get_product_expiration_date: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       get_proj4_from_srid: {
         Args: {
           "": number
         }
         Returns: string
       }
+      get_report_target_owner: {
+        Args: {
+          target_type_param: string
+          target_id_param: string
+        }
+        Returns: string
+      }
       get_user_audit_history: {
         Args: {
           user_id_param: string
@@ -2218,6 +2716,12 @@ export type Database = {
           performed_at: string
         }[]
       }
+      get_weekly_digest: {
+        Args: {
+          items_per_section?: number
+        }
+        Returns: Json
+      }
       gettransactionid: {
         Args: Record<PropertyKey, never>
         Returns: unknown
@@ -2264,6 +2768,22 @@ export type Database = {
         }
         Returns: unknown
       }
+      has_contacted_seller: {
+        Args: {
+          seller_id_param: string
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          required_permission: Database["public"]["Enums"]["permission_type"]
+        }
+        Returns: boolean
+      }
+      is_owner: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       json: {
         Args: {
           "": unknown
@@ -2301,6 +2821,14 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      moderate_content_report: {
+        Args: {
+          report_id_param: string
+          action_param: string
+          note_param?: string
+        }
+        Returns: undefined
+      }
       path: {
         Args: {
           "": unknown
@@ -2559,6 +3087,28 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      process_notification_broadcasts: {
+        Args: {
+          batch_size?: number
+          max_batches?: number
+        }
+        Returns: number
+      }
+      register_push_subscription: {
+        Args: {
+          endpoint_param: string
+          p256dh_param: string
+          auth_param: string
+          user_agent_param?: string
+        }
+        Returns: undefined
+      }
+      renew_product: {
+        Args: {
+          product_id_param: string
+        }
+        Returns: string
+      }
       request_password_reset: {
         Args: {
           target_email: string
@@ -4584,6 +5134,15 @@ export type Database = {
         }
         Returns: undefined
       }
+      toggle_user_permission: {
+        Args: {
+          target_user_id: string
+          permission_param: Database["public"]["Enums"]["permission_type"]
+          should_grant: boolean
+          admin_user_id: string
+        }
+        Returns: undefined
+      }
       unlockrows: {
         Args: {
           "": string
@@ -4600,6 +5159,15 @@ export type Database = {
         }
         Returns: string
       }
+      wants_notification: {
+        Args: {
+          p_user_id: string
+          p_type: string
+          p_category_id?: string
+          p_location_id?: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       permission_type:
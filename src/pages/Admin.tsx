@@ -1,10 +1,35 @@
 
 import React from 'react';
-import { Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import Navbar2 from '../components/Navbar2';
 import AdminNav from '../components/AdminNav';
+import Forbidden from './Forbidden';
+import { useAdminAccess } from '../hooks/useAdminAccess';
 
 const Admin = () => {
+  const location = useLocation();
+  const { data: access, isLoading, allowedSections } = useAdminAccess();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p>Carregando...</p>
+      </div>
+    );
+  }
+
+  if (!access?.isAuthenticated) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (allowedSections.length === 0) {
+    return <Forbidden />;
+  }
+
+  if (location.pathname.replace(/\/$/, '') === '/admin') {
+    return <Navigate to={`/admin/${allowedSections[0]}`} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar2 />
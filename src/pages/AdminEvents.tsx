@@ -68,7 +68,7 @@ const AdminEvents = () => {
       
       if (!user) {
         toast.error("Você precisa estar logado para realizar esta ação.");
-        return;
+        return false;
       }
 
       // Remove any undefined, null, or empty string values from eventData
@@ -98,14 +98,18 @@ const AdminEvents = () => {
       if (error) {
         console.error("Error details:", error);
         toast.error(`Erro ao adicionar evento: ${error.message}`);
-        return;
+        return false;
       }
 
-      toast.success("Evento adicionado com sucesso!");
+      toast.success("Evento adicionado com sucesso!", {
+        description: "Os usuários inscritos serão notificados em instantes.",
+      });
       fetchEvents();
+      return true;
     } catch (error: any) {
       console.error("Error adding event:", error);
       toast.error(`Erro ao adicionar evento: ${error.message}`);
+      return false;
     }
   };
 
@@ -113,14 +117,14 @@ const AdminEvents = () => {
     try {
       if (!editingEvent?.id) {
         toast.error("ID do evento não encontrado");
-        return;
+        return false;
       }
 
       const { data: { user } } = await supabase.auth.getUser();
       
       if (!user) {
         toast.error("Você precisa estar logado para realizar esta ação.");
-        return;
+        return false;
       }
 
       // Remove any undefined, null, or empty string values from eventData
@@ -128,10 +132,11 @@ const AdminEvents = () => {
         Object.entries(eventData).filter(([_, v]) => v != null && v !== "")
       );
 
-      // Ensure user_id is maintained
+      // Ensure user_id is maintained; recurrence is kept even when null so it can be removed
       const finalEventData = {
         ...cleanEventData,
-        user_id: user.id
+        user_id: user.id,
+        recurrence: eventData.recurrence ?? null
       };
 
       console.log("Updating event data:", finalEventData);
@@ -144,15 +149,17 @@ const AdminEvents = () => {
       if (error) {
         console.error("Error details:", error);
         toast.error(`Erro ao atualizar evento: ${error.message}`);
-        return;
+        return false;
       }
 
       toast.success("Evento atualizado com sucesso!");
       setEditingEvent(null);
       fetchEvents();
+      return true;
     } catch (error: any) {
       console.error("Error updating event:", error);
       toast.error(`Erro ao atualizar evento: ${error.message}`);
+      return false;
     }
   };
 
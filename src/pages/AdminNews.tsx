@@ -7,6 +7,7 @@ import { toast } from "sonner";
 import { Textarea } from "@/components/ui/textarea";
 import { Search, Plus, Trash2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { MediaUrlError, normalizeMediaUrl } from "@/utils/mediaUrl";
 
 interface Category {
   id: string;
@@ -30,6 +31,18 @@ interface News {
   instagram_media: InstagramMedia[] | null;
 }
 
+// Retorna a primeira mensagem de erro entre as mídias da notícia
+const getMediaValidationError = (item: Partial<News>) => {
+  try {
+    item.images?.forEach((url) => normalizeMediaUrl(url, "image", { providers: ["dropbox", "direct"] }));
+    item.video_urls?.forEach((url) => normalizeMediaUrl(url, "video", { providers: ["dropbox", "youtube"] }));
+    item.instagram_media?.forEach((media) => media.url && normalizeMediaUrl(media.url, "instagram"));
+    return null;
+  } catch (error) {
+    return error instanceof MediaUrlError ? error.message : "Mídia inválida";
+  }
+};
+
 const AdminNews = () => {
   const [news, setNews] = useState<News[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -90,26 +103,10 @@ const AdminNews = () => {
         return;
       }
 
-      // Validate images URLs
-      if (newNews.images && newNews.images.length > 0) {
-        for (const url of newNews.images) {
-          if (!url.includes('dropbox.com')) {
-            toast.error("As imagens devem ser do Dropbox");
-            return;
-          }
-        }
-      }
-
-      // Validate video URLs
-      if (newNews.video_urls && newNews.video_urls.length > 0) {
-        for (const url of newNews.video_urls) {
-          const isDropbox = url.includes('dropbox.com');
-          const isYoutube = url.includes('youtube.com') || url.includes('youtu.be');
-          if (!isDropbox && !isYoutube) {
-            toast.error("Os vídeos devem ser do Dropbox ou YouTube");
-            return;
-          }
-        }
+      const mediaError = getMediaValidationError(newNews);
+      if (mediaError) {
+        toast.error(mediaError);
+        return;
       }
 
       console.log('Submitting news:', newNews);
@@ -126,7 +123,9 @@ const AdminNews = () => {
         throw error;
       }
 
-      toast.success("Notícia adicionada com sucesso!");
+      toast.success("Notícia adicionada com sucesso!", {
+        description: "Os usuários inscritos serão notificados em instantes.",
+      });
       setNewNews({
         title: "",
         content: "",
@@ -150,6 +149,12 @@ const AdminNews = () => {
         return;
       }
 
+      const mediaError = getMediaValidationError(editingNews);
+      if (mediaError) {
+        toast.error(mediaError);
+        return;
+      }
+
       // Get current user
       const { data: { user } } = await supabase.auth.getUser();
       
@@ -275,18 +280,14 @@ const AdminNews = () => {
       return;
     }
 
-    // Check if it's a valid Dropbox URL
-    if (!newImageUrl.includes('dropbox.com')) {
-      toast.error("Por favor, insira uma URL válida do Dropbox");
+    let directImageUrl: string;
+    try {
+      directImageUrl = normalizeMediaUrl(newImageUrl, "image", { providers: ["dropbox"] }).url;
+    } catch (error) {
+      toast.error(error instanceof MediaUrlError ? error.message : "URL de imagem inválida");
       return;
     }
 
-    // Convert Dropbox URL to direct link if needed
-    let directImageUrl = newImageUrl;
-    if (newImageUrl.includes('www.dropbox.com')) {
-      directImageUrl = newImageUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
     if (editingNews) {
       setEditingNews({
         ...editingNews,
@@ -323,21 +324,14 @@ const AdminNews = () => {
       return;
     }
 
-    // Check if it's a valid Dropbox or YouTube URL
-    const isDropboxUrl = newVideoUrl.includes('dropbox.com');
-    const isYoutubeUrl = newVideoUrl.includes('youtube.com') || newVideoUrl.includes('youtu.be');
-
-    if (!isDropboxUrl && !isYoutubeUrl) {
-      toast.error("Por favor, insira uma URL válida do Dropbox ou YouTube");
+    let directVideoUrl: string;
+    try {
+      directVideoUrl = normalizeMediaUrl(newVideoUrl, "video", { providers: ["dropbox", "youtube"] }).url;
+    } catch (error) {
+      toast.error(error instanceof MediaUrlError ? error.message : "URL de vídeo inválida");
       return;
     }
 
-    // Convert Dropbox URL to direct link if needed
-    let directVideoUrl = newVideoUrl;
-    if (isDropboxUrl && newVideoUrl.includes('www.dropbox.com')) {
-      directVideoUrl = newVideoUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
     if (editingNews) {
       setEditingNews({
         ...editingNews,
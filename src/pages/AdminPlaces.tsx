@@ -64,7 +64,7 @@ const AdminPlaces = () => {
           description: "Você precisa estar logado para realizar esta ação.",
           variant: "destructive",
         });
-        return;
+        return false;
       }
 
       // Remove any undefined values from the formData
@@ -128,6 +128,7 @@ const AdminPlaces = () => {
       queryClient.invalidateQueries({ queryKey: ["admin-places"] });
       setIsAddEditDialogOpen(false);
       setSelectedPlace(null);
+      return true;
     } catch (error: any) {
       console.error("Error saving place:", error);
       toast({
@@ -135,6 +136,7 @@ const AdminPlaces = () => {
         description: error.message || "Por favor, tente novamente.",
         variant: "destructive",
       });
+      return false;
     }
   };
 
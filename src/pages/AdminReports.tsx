@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ExternalLink, Flag } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MODERATION_ACTION_LABELS,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+  getModerationActions,
+  getReportTargetPath,
+  type ModerationAction,
+  type ReportReason,
+  type ReportStatus,
+  type ReportTargetType,
+} from "@/utils/contentReports";
+
+interface ContentReport {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  resolution: ModerationAction | null;
+  created_at: string;
+  reporter: { full_name: string | null; username: string | null } | null;
+}
+
+// Denúncias do mesmo item são analisadas juntas
+interface ReportGroup {
+  key: string;
+  targetType: ReportTargetType;
+  targetId: string;
+  targetTitle: string;
+  reports: ContentReport[];
+}
+
+interface PendingAction {
+  group: ReportGroup;
+  action: ModerationAction;
+}
+
+const fetchTargetTitles = async (reports: ContentReport[]) => {
+  const idsOf = (type: ReportTargetType) => [
+    ...new Set(reports.filter((r) => r.target_type === type).map((r) => r.target_id)),
+  ];
+
+  const [products, events, places, profiles] = await Promise.all([
+    supabase.from("products").select("id, title").in("id", idsOf("product")),
+    supabase.from("events").select("id, title").in("id", idsOf("event")),
+    supabase.from("places").select("id, name").in("id", idsOf("place")),
+    supabase.from("profiles").select("id, full_name, username").in("id", idsOf("profile")),
+  ]);
+
+  const titles = new Map<string, string>();
+  products.data?.forEach((p) => titles.set(p.id, p.title));
+  events.data?.forEach((e) => titles.set(e.id, e.title));
+  places.data?.forEach((p) => titles.set(p.id, p.name));
+  profiles.data?.forEach((p) => titles.set(p.id, p.full_name || `@${p.username}`));
+  return titles;
+};
+
+const AdminReports = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ReportStatus>("pending");
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: groups, isLoading } = useQuery({
+    queryKey: ["content-reports", status],
+    queryFn: async (): Promise<ReportGroup[]> => {
+      const { data, error } = await supabase
+        .from("content_reports")
+        .select("*, reporter:profiles!content_reports_reporter_id_fkey(full_name, username)")
+        .eq("status", status)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+
+      const reports = data as ContentReport[];
+      const titles = await fetchTargetTitles(reports);
+      const byTarget = new Map<string, ReportGroup>();
+
+      reports.forEach((report) => {
+        const key = `${report.target_type}:${report.target_id}`;
+        if (!byTarget.has(key)) {
+          byTarget.set(key, {
+            key,
+            targetType: report.target_type,
+            targetId: report.target_id,
+            targetTitle: titles.get(report.target_id) || "Conteúdo removido",
+            reports: [],
+          });
+        }
+        byTarget.get(key)!.reports.push(report);
+      });
+
+      // Itens com mais denúncias primeiro
+      return [...byTarget.values()].sort((a, b) => b.reports.length - a.reports.length);
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ group, action }: PendingAction) => {
+      const { error } = await supabase.rpc("moderate_content_report", {
+        report_id_param: group.reports[0].id,
+        action_param: action,
+        note_param: note.trim() || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["content-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      setPendingAction(null);
+      setNote("");
+      toast({
+        title: "Denúncia resolvida",
+        description: MODERATION_ACTION_LABELS[action],
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao moderar denúncia",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Denúncias</h1>
+        <Select value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pendentes</SelectItem>
+            <SelectItem value="resolved">Resolvidas</SelectItem>
+            <SelectItem value="dismissed">Descartadas</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p>Carregando...</p>
+      ) : !groups?.length ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center text-muted-foreground">
+          <Flag className="h-8 w-8 mx-auto mb-2" />
+          Nenhuma denúncia {status === "pending" ? "pendente" : "encontrada"}.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const path = getReportTargetPath(group.targetType, group.targetId);
+
+            return (
+              <div key={group.key} className="bg-white rounded-lg shadow p-4 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{REPORT_TARGET_LABELS[group.targetType]}</Badge>
+                      <Badge variant="destructive">
+                        {group.reports.length} {group.reports.length === 1 ? "denúncia" : "denúncias"}
+                      </Badge>
+                      {group.reports[0].resolution && (
+                        <Badge variant="secondary">{MODERATION_ACTION_LABELS[group.reports[0].resolution]}</Badge>
+                      )}
+                    </div>
+                    <p className="font-semibold">
+                      {group.targetTitle}
+                      {path && (
+                        <Link to={path} target="_blank" className="inline-flex ml-2 text-primary">
+                          <ExternalLink className="h-4 w-4" />
+                        </Link>
+                      )}
+                    </p>
+                  </div>
+
+                  {status === "pending" && (
+                    <div className="flex flex-wrap gap-2">
+                      {getModerationActions(group.targetType).map((action) => (
+                        <Button
+                          key={action}
+                          size="sm"
+                          variant={action === "block" ? "destructive" : action === "dismiss" ? "ghost" : "outline"}
+                          onClick={() => setPendingAction({ group, action })}
+                        >
+                          {MODERATION_ACTION_LABELS[action]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <ul className="divide-y text-sm">
+                  {group.reports.map((report) => (
+                    <li key={report.id} className="py-2 flex flex-wrap justify-between gap-2">
+                      <div>
+                        <span className="font-medium">{REPORT_REASON_LABELS[report.reason]}</span>
+                        {report.details && <p className="text-muted-foreground">{report.details}</p>}
+                      </div>
+                      <span className="text-muted-foreground">
+                        {report.reporter?.full_name || (report.reporter?.username ? `@${report.reporter.username}` : "Usuário")}
+                        {" · "}
+                        {format(new Date(report.created_at), "dd/MM/yyyy HH:mm")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog
+        open={!!pendingAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingAction(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction && MODERATION_ACTION_LABELS[pendingAction.action]}</DialogTitle>
+            <DialogDescription>
+              {pendingAction?.group.targetTitle}. Todas as denúncias pendentes deste item serão encerradas.
+            </DialogDescription>
+          </DialogHeader>
+          {(pendingAction?.action === "hide" || pendingAction?.action === "warn") && (
+            <div className="space-y-2">
+              <Label htmlFor="moderation-note">Mensagem para o usuário (opcional)</Label>
+              <Textarea
+                id="moderation-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Explique o motivo da decisão"
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant={pendingAction?.action === "block" ? "destructive" : "default"}
+              onClick={() => pendingAction && moderateMutation.mutate(pendingAction)}
+              disabled={moderateMutation.isPending}
+            >
+              Confirmar
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminReports;
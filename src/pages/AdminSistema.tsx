@@ -25,6 +25,9 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
 import { format } from "date-fns";
 import {
@@ -38,7 +41,10 @@ import {
   Search,
   MapPin,
   Plus,
+  ShieldCheck,
 } from "lucide-react";
+import { useAdminAccess } from "@/hooks/useAdminAccess";
+import type { PermissionType, UserPermission } from "@/types/permissions";
 
 interface UserAuditLog {
   id: string;
@@ -65,9 +71,35 @@ interface Location {
   id: string;
   name: string;
   state: string;
+  latitude: number | null;
+  longitude: number | null;
   created_at: string;
 }
 
+const emptyLocationForm = {
+  name: "",
+  state: "",
+  latitude: "",
+  longitude: "",
+};
+
+const PERMISSION_LABELS: Record<PermissionType, string> = {
+  owner: "Proprietário",
+  admin: "Administrador",
+  news_editor: "Editor de notícias",
+  events_editor: "Editor de eventos",
+  places_editor: "Editor de lugares",
+  stores_editor: "Editor de lojas",
+};
+
+// Só proprietários concedem ou revogam estas permissões
+const OWNER_MANAGED_PERMISSIONS: PermissionType[] = ["owner", "admin"];
+
+const PERMISSION_ACTION_LABELS: Record<string, string> = {
+  grant_permission: "Permissão concedida",
+  revoke_permission: "Permissão revogada",
+};
+
 const AdminSistema = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -76,10 +108,9 @@ const AdminSistema = () => {
   const [showHistory, setShowHistory] = useState(false);
   const [showLocationDialog, setShowLocationDialog] = useState(false);
   const [editingLocation, setEditingLocation] = useState<Location | null>(null);
-  const [newLocation, setNewLocation] = useState({
-    name: "",
-    state: "",
-  });
+  const [newLocation, setNewLocation] = useState(emptyLocationForm);
+  const { data: access } = useAdminAccess();
+  const isOwner = !!access?.permissions.includes("owner");
 
   const { data: users, isLoading } = useQuery({
     queryKey: ["users", searchTerm],
@@ -113,6 +144,58 @@ const AdminSistema = () => {
     enabled: !!selectedUser && showHistory,
   });
 
+  const { data: userPermissions } = useQuery({
+    queryKey: ["userPermissions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("user_permissions")
+        .select("*");
+      if (error) throw error;
+      return data as UserPermission[];
+    },
+  });
+
+  const getUserPermissions = (userId: string) =>
+    userPermissions
+      ?.filter((p) => p.user_id === userId)
+      .map((p) => p.permission) || [];
+
+  const togglePermissionMutation = useMutation({
+    mutationFn: async ({
+      userId,
+      permission,
+      shouldGrant,
+    }: {
+      userId: string;
+      permission: PermissionType;
+      shouldGrant: boolean;
+    }) => {
+      const { error } = await supabase.rpc("toggle_user_permission", {
+        target_user_id: userId,
+        permission_param: permission,
+        should_grant: shouldGrant,
+        admin_user_id: (await supabase.auth.getUser()).data.user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { shouldGrant }) => {
+      queryClient.invalidateQueries({ queryKey: ["userPermissions"] });
+      queryClient.invalidateQueries({ queryKey: ["userHistory"] });
+      queryClient.invalidateQueries({ queryKey: ["adminAccess"] });
+      toast({
+        title: shouldGrant ? "Permissão concedida" : "Permissão revogada",
+        description: "As permissões do usuário foram atualizadas com sucesso",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar permissões",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: string) => {
       const { error } = await supabase.rpc("soft_delete_user", {
@@ -256,7 +339,7 @@ const AdminSistema = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["locations"] });
       setShowLocationDialog(false);
-      setNewLocation({ name: "", state: "" });
+      setNewLocation(emptyLocationForm);
       toast({
         title: "Localização adicionada",
         description: "A localização foi adicionada com sucesso",
@@ -279,6 +362,8 @@ const AdminSistema = () => {
         .update({
           name: location.name,
           state: location.state,
+          latitude: location.latitude,
+          longitude: location.longitude,
         })
         .eq("id", location.id)
         .select()
@@ -336,13 +421,20 @@ const AdminSistema = () => {
 
   const handleLocationSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const location = {
+      name: newLocation.name,
+      state: newLocation.state,
+      latitude: newLocation.latitude ? parseFloat(newLocation.latitude) : null,
+      longitude: newLocation.longitude ? parseFloat(newLocation.longitude) : null,
+    };
+
     if (editingLocation) {
       updateLocationMutation.mutate({
         ...editingLocation,
-        ...newLocation,
+        ...location,
       });
     } else {
-      addLocationMutation.mutate(newLocation);
+      addLocationMutation.mutate(location);
     }
   };
 
@@ -374,6 +466,7 @@ const AdminSistema = () => {
               <TableHead>Email</TableHead>
               <TableHead>Criado em</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Permissões</TableHead>
               <TableHead className="text-right">Ações</TableHead>
             </TableRow>
           </TableHeader>
@@ -393,6 +486,15 @@ const AdminSistema = () => {
                     <span className="text-green-500">Ativo</span>
                   )}
                 </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {getUserPermissions(user.id).map((permission) => (
+                      <Badge key={permission} variant="secondary">
+                        {PERMISSION_LABELS[permission]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
                 <TableCell className="text-right">
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -468,6 +570,47 @@ const AdminSistema = () => {
                         </DialogContent>
                       </Dialog>
 
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+                            <ShieldCheck className="mr-2 h-4 w-4" />
+                            Permissões
+                          </DropdownMenuItem>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Permissões de {user.full_name || user.username}</DialogTitle>
+                          </DialogHeader>
+                          <div className="grid gap-4 py-4">
+                            {(Object.keys(PERMISSION_LABELS) as PermissionType[]).map((permission) => {
+                              const isGranted = getUserPermissions(user.id).includes(permission);
+                              return (
+                                <div key={permission} className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id={`${user.id}-${permission}`}
+                                    checked={isGranted}
+                                    disabled={
+                                      togglePermissionMutation.isPending ||
+                                      (OWNER_MANAGED_PERMISSIONS.includes(permission) && !isOwner)
+                                    }
+                                    onCheckedChange={(checked) =>
+                                      togglePermissionMutation.mutate({
+                                        userId: user.id,
+                                        permission,
+                                        shouldGrant: checked === true,
+                                      })
+                                    }
+                                  />
+                                  <Label htmlFor={`${user.id}-${permission}`}>
+                                    {PERMISSION_LABELS[permission]}
+                                  </Label>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </DialogContent>
+                      </Dialog>
+
                       <DropdownMenuItem
                         onClick={() => resetPasswordMutation.mutate(user.email)}
                       >
@@ -496,7 +639,12 @@ const AdminSistema = () => {
                         )}
                       </DropdownMenuItem>
 
-                      <Dialog>
+                      <Dialog
+                        onOpenChange={(open) => {
+                          setShowHistory(open);
+                          if (open) setSelectedUser(user);
+                        }}
+                      >
                         <DialogTrigger asChild>
                           <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
                             <History className="mr-2 h-4 w-4" />
@@ -513,12 +661,24 @@ const AdminSistema = () => {
                                 key={log.id}
                                 className="p-4 bg-gray-50 rounded-lg"
                               >
-                                <p className="font-medium">{log.action}</p>
+                                <p className="font-medium">
+                                  {PERMISSION_ACTION_LABELS[log.action]
+                                    ? `${PERMISSION_ACTION_LABELS[log.action]}: ${
+                                        PERMISSION_LABELS[log.details?.permission as PermissionType] ||
+                                        log.details?.permission
+                                      }`
+                                    : log.action}
+                                </p>
                                 <p className="text-sm text-gray-500">
                                   {format(
                                     new Date(log.performed_at),
                                     "dd/MM/yyyy HH:mm"
                                   )}
+                                  {log.performed_by &&
+                                    ` por ${
+                                      users?.find((u) => u.id === log.performed_by)?.full_name ||
+                                      log.performed_by
+                                    }`}
                                 </p>
                                 <pre className="mt-2 text-sm">
                                   {JSON.stringify(log.details, null, 2)}
@@ -586,6 +746,32 @@ const AdminSistema = () => {
                     required
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Latitude</label>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={newLocation.latitude}
+                      onChange={(e) =>
+                        setNewLocation({ ...newLocation, latitude: e.target.value })
+                      }
+                      placeholder="-23.5505"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Longitude</label>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={newLocation.longitude}
+                      onChange={(e) =>
+                        setNewLocation({ ...newLocation, longitude: e.target.value })
+                      }
+                      placeholder="-46.6333"
+                    />
+                  </div>
+                </div>
                 <Button type="submit" className="w-full">
                   {editingLocation ? "Atualizar" : "Adicionar"}
                 </Button>
@@ -626,6 +812,8 @@ const AdminSistema = () => {
                             setNewLocation({
                               name: location.name,
                               state: location.state,
+                              latitude: location.latitude?.toString() || "",
+                              longitude: location.longitude?.toString() || "",
                             });
                             setShowLocationDialog(true);
                           }}
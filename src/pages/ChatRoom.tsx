@@ -0,0 +1,338 @@
+
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Send } from "lucide-react";
+import { format, formatDistance } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { attachParticipantProfiles } from "@/hooks/useChats";
+import { isUserOnline, PRESENCE_TIMEOUT_MS } from "@/hooks/useOnlineStatus";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { ChatParticipant, Message } from "@/types/chat";
+import Navbar from "@/components/Navbar";
+import BottomNav from "@/components/BottomNav";
+
+const ChatRoom = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [newMessage, setNewMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isOtherTyping, setIsOtherTyping] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const lastTypingSentRef = useRef(0);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    };
+    checkSession();
+  }, [navigate]);
+
+  const { data: participants = [] } = useQuery({
+    queryKey: ["chatParticipants", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("chat_participants")
+        .select("*")
+        .eq("chat_id", id);
+
+      if (error) throw error;
+      return attachParticipantProfiles(data as ChatParticipant[]);
+    },
+    enabled: !!id && !!userId,
+    // Reavalia o status quando o outro participante para de renovar last_seen
+    refetchInterval: PRESENCE_TIMEOUT_MS,
+  });
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["messages", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("chat_id", id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as Message[];
+    },
+    enabled: !!id && !!userId,
+  });
+
+  const other = participants.find((p) => p.user_id !== userId);
+  const otherOnline = isUserOnline(other?.profile);
+
+  // Recebe novas mensagens e o indicador de digitação ao vivo
+  useEffect(() => {
+    if (!id || !userId) return;
+
+    const channel = supabase
+      .channel(`chat-${id}`, { config: { broadcast: { self: false } } })
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages", filter: `chat_id=eq.${id}` },
+        (payload) => {
+          const message = payload.new as Message;
+          queryClient.setQueryData<Message[]>(["messages", id], (old = []) =>
+            old.some((m) => m.id === message.id) ? old : [...old, message]
+          );
+          if (message.sender_id !== userId) {
+            setIsOtherTyping(false);
+          }
+        }
+      )
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        if (payload?.user_id === userId) return;
+
+        setIsOtherTyping(true);
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = setTimeout(() => setIsOtherTyping(false), 3000);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimeoutRef.current);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [id, userId, queryClient]);
+
+  // Atualiza o status online do outro participante
+  useEffect(() => {
+    if (!id || !other?.user_id) return;
+
+    const channel = supabase
+      .channel(`chat-presence-${id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "user_presence", filter: `user_id=eq.${other.user_id}` },
+        (payload) => {
+          const presence = payload.new as { online_status?: boolean; last_seen?: string };
+          queryClient.setQueryData<ChatParticipant[]>(["chatParticipants", id], (old = []) =>
+            old.map((p) =>
+              p.user_id === other.user_id
+                ? {
+                    ...p,
+                    profile: {
+                      ...p.profile,
+                      online_status: presence.online_status,
+                      last_seen: presence.last_seen,
+                    },
+                  }
+                : p
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, other?.user_id, queryClient]);
+
+  // Marca a conversa como lida sempre que novas mensagens forem carregadas
+  useEffect(() => {
+    if (!id || !userId) return;
+
+    const markAsRead = async () => {
+      const { error } = await supabase
+        .from("chat_participants")
+        .update({ last_read_at: new Date().toISOString() })
+        .eq("chat_id", id)
+        .eq("user_id", userId);
+
+      if (error) {
+        console.error("Error marking chat as read:", error);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["unreadMessages"] });
+      queryClient.invalidateQueries({ queryKey: ["chats"] });
+    };
+
+    markAsRead();
+  }, [id, userId, messages.length, queryClient]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const handleTyping = (value: string) => {
+    setNewMessage(value);
+
+    const now = Date.now();
+    if (!channelRef.current || now - lastTypingSentRef.current < 2000) return;
+
+    lastTypingSentRef.current = now;
+    channelRef.current.send({
+      type: "broadcast",
+      event: "typing",
+      payload: { user_id: userId },
+    });
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = newMessage.trim();
+    if (!content || !id || !userId) return;
+
+    setIsSending(true);
+    try {
+      const { data: message, error } = await supabase
+        .from("messages")
+        .insert({
+          chat_id: id,
+          sender_id: userId,
+          content,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      queryClient.setQueryData<Message[]>(["messages", id], (old = []) =>
+        old.some((m) => m.id === message.id) ? old : [...old, message as Message]
+      );
+      setNewMessage("");
+    } catch (error) {
+      console.error("Error sending message:", error);
+      toast({
+        description: "Erro ao enviar mensagem",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const getStatusText = () => {
+    if (isOtherTyping) return "digitando...";
+    if (otherOnline) return "Online";
+    if (other?.profile?.last_seen) {
+      return `Visto por último há ${formatDistance(new Date(other.profile.last_seen), new Date(), { locale: ptBR })}`;
+    }
+    return null;
+  };
+
+  const statusText = getStatusText();
+
+  return (
+    <>
+      <Navbar />
+      <div className="max-w-3xl mx-auto px-4 pt-20 pb-40">
+        <div className="flex items-center gap-3 mb-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/mensagens")}
+            className="hover:scale-105 transition-transform"
+          >
+            <ArrowLeft className="h-6 w-6" />
+          </Button>
+          <div className="w-10 h-10 rounded-full bg-muted overflow-hidden shrink-0">
+            {other?.profile?.avatar_url ? (
+              <img
+                src={other.profile.avatar_url}
+                alt={other.profile.name || ""}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full bg-primary/10 flex items-center justify-center text-primary font-semibold">
+                {other?.profile?.name?.[0]?.toUpperCase() || "?"}
+              </div>
+            )}
+          </div>
+          <div className="min-w-0">
+            <h1 className="font-semibold text-lg truncate">
+              {other?.profile?.name || other?.profile?.username || "Usuário"}
+            </h1>
+            {statusText && (
+              <p className={cn(
+                "text-xs truncate",
+                isOtherTyping || otherOnline ? "text-green-600" : "text-muted-foreground"
+              )}>
+                {statusText}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">Carregando...</div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            Envie a primeira mensagem
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {messages.map((message) => {
+              const isMine = message.sender_id === userId;
+              return (
+                <div
+                  key={message.id}
+                  className={cn("flex", isMine ? "justify-end" : "justify-start")}
+                >
+                  <div
+                    className={cn(
+                      "max-w-[80%] rounded-2xl px-4 py-2 shadow-sm",
+                      isMine
+                        ? "bg-primary text-primary-foreground rounded-br-sm"
+                        : "bg-muted text-foreground rounded-bl-sm"
+                    )}
+                  >
+                    <p className="whitespace-pre-line break-words">{message.content}</p>
+                    <p className={cn(
+                      "text-[10px] mt-1 text-right",
+                      isMine ? "text-primary-foreground/70" : "text-muted-foreground"
+                    )}>
+                      {format(new Date(message.created_at), "dd MMM HH:mm", { locale: ptBR })}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={handleSend}
+        className="fixed bottom-16 md:bottom-0 left-0 right-0 p-4 bg-background/80 backdrop-blur-md border-t border-border"
+      >
+        <div className="max-w-3xl mx-auto flex gap-2">
+          <Input
+            value={newMessage}
+            onChange={(e) => handleTyping(e.target.value)}
+            placeholder="Digite sua mensagem..."
+            className="rounded-full"
+          />
+          <Button type="submit" size="icon" className="rounded-full shrink-0" disabled={isSending || !newMessage.trim()}>
+            <Send className="h-5 w-5" />
+          </Button>
+        </div>
+      </form>
+      <BottomNav />
+    </>
+  );
+};
+
+export default ChatRoom;
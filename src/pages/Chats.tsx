@@ -0,0 +1,124 @@
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { MessageCircle } from "lucide-react";
+import { formatDistance } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { useChats } from "@/hooks/useChats";
+import { isUserOnline } from "@/hooks/useOnlineStatus";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+
+const Chats = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+      setUserId(session.user.id);
+    };
+    checkSession();
+  }, [navigate]);
+
+  const { data: chats = [], isLoading } = useChats(userId);
+
+  return (
+    <>
+      <Navbar />
+      <SubNav />
+      <div className="max-w-3xl mx-auto p-4 md:p-6 mb-20">
+        <div className="flex items-center gap-3 mb-6">
+          <MessageCircle className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Mensagens</h1>
+        </div>
+
+        {isLoading || !userId ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-16 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : chats.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            Nenhuma conversa encontrada
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {chats.map((chat) => {
+              const other = chat.participants.find((p) => p.user_id !== userId);
+              const lastMessage = chat.messages[0];
+
+              return (
+                <div
+                  key={chat.id}
+                  className={cn(
+                    "flex items-center gap-3 p-3 rounded-lg border transition-all cursor-pointer hover:shadow-sm",
+                    chat.unread_count > 0
+                      ? "bg-background border-primary/10"
+                      : "bg-muted/50 border-transparent"
+                  )}
+                  onClick={() => navigate(`/mensagens/${chat.id}`)}
+                >
+                  <div className="relative shrink-0">
+                    <div className="w-12 h-12 rounded-full bg-muted overflow-hidden">
+                      {other?.profile?.avatar_url ? (
+                        <img
+                          src={other.profile.avatar_url}
+                          alt={other.profile.name || ""}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-primary/10 flex items-center justify-center text-primary text-lg font-semibold">
+                          {other?.profile?.name?.[0]?.toUpperCase() || "?"}
+                        </div>
+                      )}
+                    </div>
+                    {isUserOnline(other?.profile) && (
+                      <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-background" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className={cn("font-medium truncate", chat.unread_count > 0 && "text-primary")}>
+                        {other?.profile?.name || other?.profile?.username || "Usuário"}
+                      </h3>
+                      {lastMessage && (
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {formatDistance(new Date(lastMessage.created_at), new Date(), { locale: ptBR })}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground truncate">
+                        {lastMessage
+                          ? `${lastMessage.sender_id === userId ? "Você: " : ""}${lastMessage.content}`
+                          : "Nenhuma mensagem ainda"}
+                      </p>
+                      {chat.unread_count > 0 && (
+                        <Badge className="h-5 min-w-5 px-1.5 justify-center">
+                          {chat.unread_count}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      <BottomNav />
+    </>
+  );
+};
+
+export default Chats;
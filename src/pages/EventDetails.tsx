@@ -0,0 +1,257 @@
+
+import { useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowLeft, Share2, Calendar, Clock, MapPin, Ticket, ExternalLink, Repeat } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import MediaCarousel from "@/components/MediaCarousel";
+import AddToCalendarMenu from "@/components/AddToCalendarMenu";
+import ReportButton from "@/components/ReportButton";
+import MapView from "@/components/map/MapView";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+import type { Database } from "@/integrations/supabase/types";
+import { parseMapsUrlCoordinates } from "@/utils/mapCoordinates";
+import { describeRecurrence, getNextOccurrence, parseRecurrence } from "@/utils/eventRecurrence";
+
+type Event = Database['public']['Tables']['events']['Row'] & {
+  categories: {
+    name: string;
+    background_color: string | null;
+  } | null;
+};
+
+const EventDetails = () => {
+  const { id } = useParams();
+
+  const { data: event, isLoading } = useQuery({
+    queryKey: ["event", id],
+    queryFn: async () => {
+      if (!id) {
+        throw new Error("ID do evento não encontrado");
+      }
+
+      const { data, error } = await supabase
+        .from("events")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching event:", error);
+        throw error;
+      }
+
+      if (!data) return null;
+
+      const { data: category } = data.category_id
+        ? await supabase
+            .from("categories")
+            .select("name, background_color")
+            .eq("id", data.category_id)
+            .maybeSingle()
+        : { data: null };
+
+      return { ...data, categories: category } as Event;
+    },
+  });
+
+  useEffect(() => {
+    if (event) {
+      document.title = `${event.title} | Vale Notícias`;
+    }
+  }, [event]);
+
+  const handleShare = async () => {
+    if (!event) return;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: event.title,
+          text: event.description,
+          url: window.location.href,
+        });
+      } else {
+        await navigator.clipboard.writeText(window.location.href);
+        toast.success("Link copiado para a área de transferência!");
+      }
+    } catch (error) {
+      console.error("Error sharing:", error);
+      toast.error("Erro ao compartilhar");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 flex-1">
+          <div className="animate-pulse max-w-4xl mx-auto">
+            <div className="h-8 bg-gray-200 rounded w-3/4 mb-4"></div>
+            <div className="h-64 bg-gray-200 rounded w-full mb-8"></div>
+            <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          </div>
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  if (!event) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 text-center flex-1">
+          <h1 className="text-2xl font-bold mb-4">Evento não encontrado</h1>
+          <p className="text-gray-600">O evento que você está procurando não existe ou foi removido.</p>
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  const recurrence = parseRecurrence(event.recurrence);
+  const nextDate = getNextOccurrence(event.event_date, event.event_time, event.end_time, recurrence) || event.event_date;
+  const formattedDate = format(parseISO(nextDate), "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR });
+  const mapsUrl = event.maps_url || event.url_maps_events;
+  const coordinates = parseMapsUrlCoordinates(mapsUrl);
+  const images = event.images?.length ? event.images : [event.file_path || event.image].filter(Boolean) as string[];
+  const hasMedia = images.length > 0 || event.video_urls?.length > 0;
+
+  return (
+    <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+      <Navbar />
+      <SubNav />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                to="/eventos"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Voltar</span>
+              </Link>
+              <div className="flex flex-wrap justify-end gap-2">
+                <AddToCalendarMenu event={event} />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleShare}
+                  className="rounded-full hover:scale-105 transition-all duration-300 shadow-lg"
+                >
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Compartilhar
+                </Button>
+                <ReportButton
+                  targetType="event"
+                  targetId={event.id}
+                  label="Denunciar"
+                  variant="secondary"
+                  className="rounded-full hover:scale-105 transition-all duration-300 shadow-lg"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h1 className="text-2xl md:text-3xl font-bold leading-tight">{event.title}</h1>
+              {event.categories && (
+                <Badge
+                  style={{
+                    backgroundColor: event.categories.background_color ? `${event.categories.background_color}40` : '#D6BCFA40',
+                    color: event.categories.background_color || '#1A1F2C'
+                  }}
+                >
+                  {event.categories.name}
+                </Badge>
+              )}
+            </div>
+
+            {hasMedia && (
+              <div className="rounded-2xl overflow-hidden shadow-xl aspect-video">
+                <MediaCarousel
+                  images={images}
+                  videoUrls={event.video_urls || []}
+                  title={event.title}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Calendar className="w-4 h-4 text-muted-foreground" />
+                <span className="capitalize">{formattedDate}</span>
+              </div>
+              {recurrence && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Repeat className="w-4 h-4 text-muted-foreground" />
+                  <span>{describeRecurrence(recurrence)}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-sm">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                <span>{event.event_time.slice(0, 5)} - {event.end_time.slice(0, 5)}</span>
+              </div>
+              {event.location && (
+                <div className="flex items-center gap-2 text-sm">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span>{event.location}</span>
+                </div>
+              )}
+              {event.entrance_fee && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Ticket className="w-4 h-4 text-muted-foreground" />
+                  <span>{event.entrance_fee}</span>
+                </div>
+              )}
+              {mapsUrl && (
+                <a
+                  href={mapsUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  <span>Ver no Google Maps</span>
+                </a>
+              )}
+            </div>
+
+            <div className="prose prose-lg max-w-none">
+              {event.description.split('\n').map((paragraph, index) => (
+                paragraph.trim() ? (
+                  <p key={index} className="whitespace-pre-line text-base leading-relaxed mb-4">
+                    {paragraph}
+                  </p>
+                ) : <br key={index} />
+              ))}
+            </div>
+
+            {coordinates && (
+              <MapView
+                markers={[{ id: event.id, title: event.title, ...coordinates }]}
+                selectedId={event.id}
+                onSelect={() => window.open(mapsUrl!, "_blank")}
+                className="h-64"
+              />
+            )}
+          </div>
+        </div>
+      </main>
+      <BottomNav />
+    </div>
+  );
+};
+
+export default EventDetails;
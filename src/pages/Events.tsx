@@ -1,6 +1,7 @@
 
 import { useState, useEffect } from "react";
-import { Search, Bell, Menu } from "lucide-react";
+import { addDays, startOfDay } from "date-fns";
+import { Search, Menu, CalendarPlus } from "lucide-react";
 import { supabase } from "../integrations/supabase/client";
 import type { Database } from "../integrations/supabase/types";
 import { toast } from "sonner";
@@ -9,6 +10,7 @@ import Navbar from "../components/Navbar";
 import SubNav from "../components/SubNav";
 import BottomNav from "../components/BottomNav";
 import Footer from "../components/Footer";
+import NotificationTopicButton from "../components/NotificationTopicButton";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -18,11 +20,18 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { useNavigate } from "react-router-dom";
+import MapView from "@/components/map/MapView";
+import ViewModeToggle, { type ViewMode } from "@/components/map/ViewModeToggle";
+import { parseMapsUrlCoordinates } from "@/utils/mapCoordinates";
+import { getEventsFeedUrl, toWebcalUrl } from "@/utils/eventCalendar";
+import { expandOccurrences, getNextOccurrence, parseRecurrence } from "@/utils/eventRecurrence";
 
 type Event = Database['public']['Tables']['events']['Row'];
 type Category = Database['public']['Tables']['categories']['Row'];
 
+// Janela, em dias, em que eventos recorrentes são expandidos em ocorrências
+const OCCURRENCE_WINDOW_DAYS = 60;
+
 const LoadingEventCard = () => (
   <div className="bg-white rounded-lg shadow-sm overflow-hidden">
     <Skeleton className="h-48 w-full" />
@@ -39,12 +48,13 @@ const LoadingEventCard = () => (
 );
 
 export default function Events() {
-  const navigate = useNavigate();
   const [events, setEvents] = useState<Event[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchEvents();
@@ -99,53 +109,68 @@ export default function Events() {
     }
   };
 
-  const handleNotificationClick = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast.error('Faça login para ativar as notificações');
-        return;
-      }
+  const mapMarkers = events.flatMap((event) => {
+    const coordinates = parseMapsUrlCoordinates(event.maps_url || event.url_maps_events);
+    return coordinates ? [{ id: event.id, title: event.title, ...coordinates }] : [];
+  });
 
-      // Verifica se já existe uma configuração de notificação
-      const { data: existing } = await supabase
-        .from('notifications')
-        .select('enabled')
-        .eq('user_id', user.id)
-        .eq('type', 'events')
-        .single();
+  const selectedEvent = events.find((event) => event.id === selectedEventId);
 
-      const newStatus = !existing?.enabled;
+  // Eventos recorrentes viram uma entrada por ocorrência, a partir da próxima que ainda não terminou
+  const today = startOfDay(new Date());
+  const occurrences = events
+    .flatMap((event) => {
+      const recurrence = parseRecurrence(event.recurrence);
+      if (!recurrence) {
+        return [{ event, date: event.event_date }];
+      }
 
-      // Atualiza ou cria a configuração de notificação
-      const { error } = await supabase
-        .from('notifications')
-        .upsert({
-          user_id: user.id,
-          type: 'events',
-          enabled: newStatus,
-          title: 'Notificações de Eventos',
-          message: newStatus ? 'Você receberá notificações de novos eventos' : 'Notificações de eventos desativadas',
-          read: false
-        });
+      const next = getNextOccurrence(event.event_date, event.event_time, event.end_time, recurrence);
+      if (!next) return [];
 
-      if (error) {
-        console.error('Error updating notification settings:', error);
-        toast.error('Erro ao atualizar notificações');
-        return;
-      }
+      const dates = expandOccurrences(event.event_date, recurrence, today, addDays(today, OCCURRENCE_WINDOW_DAYS))
+        .filter((date) => date >= next);
 
-      toast.success(newStatus 
-        ? 'Notificações de eventos ativadas!' 
-        : 'Notificações de eventos desativadas');
+      // A próxima ocorrência sempre aparece, mesmo além da janela (ex.: feiras trimestrais)
+      return (dates.length ? dates : [next]).map((date) => ({ event, date }));
+    })
+    .sort((a, b) =>
+      a.date === b.date
+        ? a.event.event_time.localeCompare(b.event.event_time)
+        : a.date.localeCompare(b.date)
+    );
 
-      // Redireciona para mostrar a notificação
-      navigate('/notify');
-    } catch (error) {
-      console.error('Error handling notifications:', error);
-      toast.error('Erro ao configurar notificações');
-    }
+  const renderEventCard = (event: Event, occurrenceDate?: string) => {
+    const category = categories.find(cat => cat.id === event.category_id);
+    
+    return (
+      <EventCard
+        key={occurrenceDate ? `${event.id}-${occurrenceDate}` : event.id}
+        id={event.id}
+        title={event.title}
+        description={event.description}
+        eventDate={event.event_date}
+        eventTime={event.event_time}
+        endTime={event.end_time}
+        recurrence={event.recurrence}
+        occurrenceDate={occurrenceDate}
+        image={event.file_path || event.image}
+        images={event.images || []}
+        location={event.location}
+        mapsUrl={event.url_maps_events}
+        entranceFee={event.entrance_fee}
+        createdAt={event.created_at}
+        buttonColor={event.button_color}
+        buttonSecondaryColor={event.button_secondary_color}
+        videoUrl={event.video_url}
+        video_urls={event.video_urls}
+        category={category ? {
+          id: category.id,
+          name: category.name,
+          background_color: category.background_color
+        } : null}
+      />
+    );
   };
 
   return (
@@ -156,14 +181,7 @@ export default function Events() {
         <div className="flex flex-col gap-4">
           <div className="sticky top-16 z-10 bg-background/80 backdrop-blur-sm pb-4">
             <div className="flex gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleNotificationClick}
-                className="hover:scale-105 transition-transform text-foreground"
-              >
-                <Bell className="h-5 w-5" />
-              </Button>
+              <NotificationTopicButton topic="events" />
               <div className="relative flex-1">
                 <Input
                   placeholder="Buscar eventos..."
@@ -203,45 +221,50 @@ export default function Events() {
                   ))}
                 </DropdownMenuContent>
               </DropdownMenu>
+              <ViewModeToggle value={viewMode} onChange={setViewMode} />
+              <Button
+                asChild
+                variant="outline"
+                size="icon"
+                className="hover:scale-105 transition-transform text-foreground rounded-full shadow-lg"
+              >
+                <a
+                  href={toWebcalUrl(getEventsFeedUrl(selectedCategory))}
+                  title={selectedCategory
+                    ? `Assinar calendário de ${categories.find(cat => cat.id === selectedCategory)?.name ?? "eventos"}`
+                    : "Assinar calendário de eventos"}
+                >
+                  <CalendarPlus className="h-4 w-4" />
+                </a>
+              </Button>
             </div>
           </div>
 
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {viewMode === "map" && !loading && (
+            <div className="space-y-6">
+              <MapView
+                markers={mapMarkers}
+                selectedId={selectedEventId}
+                onSelect={setSelectedEventId}
+              />
+              {selectedEvent ? (
+                <div className="max-w-xl mx-auto">{renderEventCard(selectedEvent)}</div>
+              ) : (
+                <p className="text-muted-foreground text-center">
+                  Toque em um evento no mapa para ver os detalhes.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className={`grid gap-6 md:grid-cols-2 lg:grid-cols-3 ${viewMode === "map" && !loading ? "hidden" : ""}`}>
             {loading ? (
               Array(6).fill(0).map((_, index) => (
                 <LoadingEventCard key={index} />
               ))
-            ) : events.map((event) => {
-              const category = categories.find(cat => cat.id === event.category_id);
-              
-              return (
-                <EventCard
-                  key={event.id}
-                  title={event.title}
-                  description={event.description}
-                  eventDate={event.event_date}
-                  eventTime={event.event_time}
-                  endTime={event.end_time}
-                  image={event.file_path || event.image}
-                  images={event.images || []}
-                  location={event.location}
-                  mapsUrl={event.url_maps_events}
-                  entranceFee={event.entrance_fee}
-                  createdAt={event.created_at}
-                  buttonColor={event.button_color}
-                  buttonSecondaryColor={event.button_secondary_color}
-                  videoUrl={event.video_url}
-                  video_urls={event.video_urls}
-                  category={category ? {
-                    id: category.id,
-                    name: category.name,
-                    background_color: category.background_color
-                  } : null}
-                />
-              );
-            })}
+            ) : occurrences.map(({ event, date }) => renderEventCard(event, date))}
 
-            {!loading && events.length === 0 && (
+            {!loading && occurrences.length === 0 && (
               <div className="col-span-full text-center py-8">
                 <p className="text-gray-500">Nenhum evento encontrado.</p>
               </div>
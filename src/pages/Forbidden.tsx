@@ -0,0 +1,27 @@
+import { useLocation } from "react-router-dom";
+import { useEffect } from "react";
+
+const Forbidden = () => {
+  const localizacao = useLocation();
+
+  useEffect(() => {
+    console.error(
+      "Erro 403: O usuário tentou acessar uma rota sem permissão:",
+      localizacao.pathname
+    );
+  }, [localizacao.pathname]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold mb-4">403</h1>
+        <p className="text-xl text-gray-600 mb-4">Você não tem permissão para acessar esta página.</p>
+        <a href="/" className="text-blue-500 hover:text-blue-700 underline">
+          Voltar para a página inicial
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
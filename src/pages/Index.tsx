@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { Search, Bell, Menu } from "lucide-react";
+import { Search, Menu } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
@@ -19,7 +19,7 @@ import SubNav from "@/components/SubNav";
 import Footer from "@/components/Footer";
 import BottomNav from "@/components/BottomNav";
 import PWAInstallPrompt from "@/components/PWAInstallPrompt";
-import { useNavigate } from "react-router-dom";
+import NotificationTopicButton from "@/components/NotificationTopicButton";
 
 type News = Database['public']['Tables']['news']['Row'] & {
   categories: Database['public']['Tables']['categories']['Row'] | null;
@@ -27,7 +27,6 @@ type News = Database['public']['Tables']['news']['Row'] & {
 type Category = Database['public']['Tables']['categories']['Row'];
 
 const Index = () => {
-  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
 
@@ -83,55 +82,6 @@ const Index = () => {
     retry: false
   });
 
-  const handleNotificationClick = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast.error('Faça login para ativar as notificações');
-        return;
-      }
-
-      // Verifica se já existe uma configuração de notificação
-      const { data: existing } = await supabase
-        .from('notifications')
-        .select('enabled')
-        .eq('user_id', user.id)
-        .eq('type', 'news')
-        .single();
-
-      const newStatus = !existing?.enabled;
-
-      // Atualiza ou cria a configuração de notificação
-      const { error } = await supabase
-        .from('notifications')
-        .upsert({
-          user_id: user.id,
-          type: 'news',
-          enabled: newStatus,
-          title: 'Notificações de Notícias',
-          message: newStatus ? 'Você receberá notificações de novas notícias' : 'Notificações de notícias desativadas',
-          read: false
-        });
-
-      if (error) {
-        console.error('Error updating notification settings:', error);
-        toast.error('Erro ao atualizar notificações');
-        return;
-      }
-
-      toast.success(newStatus 
-        ? 'Notificações de notícias ativadas!' 
-        : 'Notificações de notícias desativadas');
-
-      // Redireciona para mostrar a notificação
-      navigate('/notify');
-    } catch (error) {
-      console.error('Error handling notifications:', error);
-      toast.error('Erro ao configurar notificações');
-    }
-  };
-
   return (
     <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
       <Navbar />
@@ -140,14 +90,7 @@ const Index = () => {
         <div className="flex flex-col gap-4">
           <div className="sticky top-16 z-10 bg-background/80 backdrop-blur-sm pb-4">
             <div className="flex gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleNotificationClick}
-                className="hover:scale-105 transition-transform text-foreground"
-              >
-                <Bell className="h-5 w-5" />
-              </Button>
+              <NotificationTopicButton topic="news" />
               <div className="relative flex-1">
                 <Input
                   placeholder="Buscar notícias..."
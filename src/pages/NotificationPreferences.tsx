@@ -0,0 +1,252 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Mail, Settings, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+import {
+  NOTIFICATION_TOPIC_LABELS,
+  useNotificationPreferences,
+  type NotificationPreferences as Preferences,
+  type NotificationTopic,
+} from "@/hooks/useNotificationPreferences";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
+
+const NotificationPreferences = () => {
+  const navigate = useNavigate();
+  const { data: preferences, isLoading, update } = useNotificationPreferences();
+  const push = usePushNotifications();
+
+  useEffect(() => {
+    document.title = "Preferências de notificação | Vale Notícias";
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading && preferences === null) {
+      navigate("/login");
+    }
+  }, [isLoading, preferences, navigate]);
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["categories-all"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name, page_type")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("locations")
+        .select("*")
+        .order("name");
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const save = (changes: Partial<Preferences>) => {
+    update.mutate(changes, {
+      onError: (error) => {
+        console.error("Error updating notification preferences:", error);
+        toast.error("Erro ao salvar preferências");
+      },
+    });
+  };
+
+  const togglePush = (checked: boolean) => {
+    const options = {
+      onSuccess: () =>
+        toast.success(checked ? "Notificações ativadas neste aparelho" : "Notificações desativadas neste aparelho"),
+      onError: (error: Error) => {
+        console.error("Error updating push subscription:", error);
+        toast.error(
+          Notification.permission === "denied"
+            ? "Permita as notificações nas configurações do navegador"
+            : "Erro ao atualizar notificações do aparelho"
+        );
+      },
+    };
+
+    if (checked) {
+      push.enable.mutate(undefined, options);
+    } else {
+      push.disable.mutate(undefined, options);
+    }
+  };
+
+  const toggleInList = (list: string[], id: string, checked: boolean) =>
+    checked ? [...list, id] : list.filter((item) => item !== id);
+
+  if (isLoading || !preferences) {
+    return (
+      <>
+        <Navbar />
+        <SubNav />
+        <div className="flex items-center justify-center min-h-screen">
+          <p>Carregando...</p>
+        </div>
+        <BottomNav />
+      </>
+    );
+  }
+
+  const topics = Object.keys(NOTIFICATION_TOPIC_LABELS) as NotificationTopic[];
+
+  return (
+    <>
+      <Navbar />
+      <SubNav />
+      <div className="max-w-3xl mx-auto p-4 md:p-6 mb-20 space-y-8">
+        <div className="flex items-center gap-3">
+          <Link to="/notify" className="text-muted-foreground hover:text-foreground" aria-label="Voltar">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <Settings className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Preferências de notificação</h1>
+        </div>
+
+        {push.isSupported && (
+          <section className="space-y-3">
+            <h2 className="font-semibold">Neste aparelho</h2>
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="flex items-center gap-3">
+                <Smartphone className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <Label htmlFor="push-notifications">Notificações no aparelho</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {push.isBlocked
+                      ? "Bloqueadas pelo navegador. Libere nas configurações do site para ativar."
+                      : "Receba avisos mesmo com o app fechado."}
+                  </p>
+                </div>
+              </div>
+              <Switch
+                id="push-notifications"
+                checked={push.isSubscribed}
+                disabled={push.isPending || push.isBlocked}
+                onCheckedChange={togglePush}
+              />
+            </div>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="font-semibold">Por e-mail</h2>
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="flex items-center gap-3">
+              <Mail className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <Label htmlFor="email-digest">Resumo semanal</Label>
+                <p className="text-sm text-muted-foreground">
+                  Toda segunda-feira, as principais notícias, os próximos eventos e os lugares novos.
+                </p>
+              </div>
+            </div>
+            <Switch
+              id="email-digest"
+              checked={preferences.email_digest}
+              onCheckedChange={(checked) => save({ email_digest: checked })}
+            />
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="font-semibold">O que você quer receber</h2>
+          {topics.map((topic) => (
+            <div key={topic} className="flex items-center justify-between rounded-lg border p-3">
+              <Label htmlFor={`topic-${topic}`}>{NOTIFICATION_TOPIC_LABELS[topic]}</Label>
+              <Switch
+                id={`topic-${topic}`}
+                checked={preferences[topic]}
+                onCheckedChange={(checked) => save({ [topic]: checked })}
+              />
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h2 className="font-semibold">Categorias</h2>
+            <p className="text-sm text-muted-foreground">
+              Sem nenhuma marcada, você recebe todas as categorias daquele tipo.
+            </p>
+          </div>
+          {topics
+            .filter((topic) => preferences[topic])
+            .map((topic) => {
+              // Os tópicos usam os mesmos nomes de categories.page_type
+              const topicCategories = categories.filter((category) => category.page_type === topic);
+              if (topicCategories.length === 0) return null;
+
+              return (
+                <div key={topic} className="space-y-2">
+                  <h3 className="text-sm font-medium text-muted-foreground">{NOTIFICATION_TOPIC_LABELS[topic]}</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {topicCategories.map((category) => (
+                      <div key={category.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`category-${category.id}`}
+                          checked={preferences.category_ids.includes(category.id)}
+                          onCheckedChange={(checked) =>
+                            save({
+                              category_ids: toggleInList(preferences.category_ids, category.id, checked === true),
+                            })
+                          }
+                        />
+                        <Label htmlFor={`category-${category.id}`}>{category.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+        </section>
+
+        <section className="space-y-4">
+          <div>
+            <h2 className="font-semibold">Cidades</h2>
+            <p className="text-sm text-muted-foreground">
+              Vale para conteúdos com cidade, como lugares e anúncios. Sem nenhuma marcada, você recebe de todas.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {locations.map((location) => (
+              <div key={location.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`location-${location.id}`}
+                  checked={preferences.location_ids.includes(location.id)}
+                  onCheckedChange={(checked) =>
+                    save({
+                      location_ids: toggleInList(preferences.location_ids, location.id, checked === true),
+                    })
+                  }
+                />
+                <Label htmlFor={`location-${location.id}`}>
+                  {location.name} - {location.state}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+      <BottomNav />
+    </>
+  );
+};
+
+export default NotificationPreferences;
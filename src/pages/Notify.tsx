@@ -1,91 +1,109 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { Bell, CheckCircle, Clock, ChevronRight, Calendar, Newspaper, Trash2 } from "lucide-react";
+import { Bell, CheckCircle, Clock, ChevronRight, Calendar, Newspaper, Settings, ShieldAlert, ShoppingBag, Trash2, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { format, isToday, isYesterday, isThisYear } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import Navbar from "@/components/Navbar";
 import SubNav from "@/components/SubNav";
 import BottomNav from "@/components/BottomNav";
+import { getNotificationPath } from "@/utils/notificationLinks";
+import { useNotificationActions, useNotifications, useUnreadNotifications } from "@/hooks/useNotifications";
+import type { Notification, NotificationType } from "@/types/notifications";
+
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  news: 'Notícia',
+  event: 'Evento',
+  product: 'Produto',
+  moderation: 'Moderação',
+};
+
+const TOAST_OPTIONS = {
+  position: "top-center" as const,
+  style: { marginTop: "64px" },
+};
+
+interface NotificationGroup {
+  type: NotificationType;
+  notifications: Notification[];
+}
 
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  created_at: string;
-  read: boolean;
-  type: 'news' | 'event';
-  reference_id?: string;
-  publication_title?: string;
-  publication_description?: string;
-  publication_category?: string;
-  publication_date?: string;
+interface NotificationDay {
+  key: string;
+  label: string;
+  groups: NotificationGroup[];
 }
 
+const getDayLabel = (date: Date) => {
+  if (isToday(date)) return "Hoje";
+  if (isYesterday(date)) return "Ontem";
+  return format(date, isThisYear(date) ? "d 'de' MMMM" : "d 'de' MMMM 'de' yyyy", { locale: ptBR });
+};
+
+// Agrupa por dia e, dentro de cada dia, por tipo; a lista já chega em ordem cronológica
+const groupNotifications = (notifications: Notification[]) => {
+  const days: NotificationDay[] = [];
+
+  for (const notification of notifications) {
+    const date = new Date(notification.created_at);
+    const key = format(date, "yyyy-MM-dd");
+
+    let day = days[days.length - 1];
+    if (!day || day.key !== key) {
+      day = { key, label: getDayLabel(date), groups: [] };
+      days.push(day);
+    }
+
+    const group = day.groups.find((g) => g.type === notification.type);
+    if (group) {
+      group.notifications.push(notification);
+    } else {
+      day.groups.push({ type: notification.type, notifications: [notification] });
+    }
+  }
+
+  return days;
+};
+
+const getNotificationIcon = (type: NotificationType) => {
+  switch (type) {
+    case "event":
+      return <Calendar className="h-4 w-4" />;
+    case "news":
+      return <Newspaper className="h-4 w-4" />;
+    case "product":
+      return <ShoppingBag className="h-4 w-4" />;
+    case "moderation":
+      return <ShieldAlert className="h-4 w-4" />;
+    default:
+      return <Bell className="h-4 w-4" />;
+  }
+};
+
 const Notify = () => {
   const navigate = useNavigate();
-  const queryClient = useQueryClient();
   const [isLoading, setIsLoading] = useState(true);
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-
-  // Carregar estado das notificações
-  useEffect(() => {
-    const loadNotificationPreference = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user?.id) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('notifications_enabled')
-          .eq('id', session.user.id)
-          .single();
-
-        if (profile) {
-          setNotificationsEnabled(profile.notifications_enabled);
-        }
-      }
-    };
-    loadNotificationPreference();
-  }, []);
-
-  // Toggle notificações
-  const toggleNotifications = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.user?.id) return;
-
-      const newState = !notificationsEnabled;
-      const { error } = await supabase
-        .from('profiles')
-        .update({ notifications_enabled: newState })
-        .eq('id', session.user.id);
-
-      if (error) throw error;
-
-      setNotificationsEnabled(newState);
-      toast.success(
-        newState 
-          ? "Notificações ativadas com sucesso" 
-          : "Notificações desativadas com sucesso",
-        {
-          position: "top-center",
-          style: { marginTop: "64px" }
-        }
-      );
-    } catch (error) {
-      console.error("Error toggling notifications:", error);
-      toast.error("Erro ao alterar estado das notificações", {
-        position: "top-center",
-        style: { marginTop: "64px" }
-      });
-    }
-  };
+  const [userId, setUserId] = useState<string>();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Check for authentication status
   useEffect(() => {
@@ -96,6 +114,7 @@ const Notify = () => {
           navigate("/login");
           return;
         }
+        setUserId(session.user.id);
         setIsLoading(false);
       } catch (error) {
         console.error("Error checking session:", error);
@@ -105,126 +124,94 @@ const Notify = () => {
     checkSession();
   }, [navigate]);
 
-  // Fetch notifications
-  const { data: notifications = [], refetch } = useQuery({
-    queryKey: ["notifications"],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("notifications")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data as Notification[];
-    },
-    enabled: !isLoading,
-  });
-
-  const deleteNotification = async (id: string) => {
-    try {
-      const { error } = await supabase
-        .from("notifications")
-        .delete()
-        .eq("id", id);
-
-      if (error) {
-        console.error("Error deleting notification:", error);
-        throw error;
+  const {
+    data,
+    isLoading: isLoadingNotifications,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useNotifications(userId);
+  const { data: unreadCount = 0 } = useUnreadNotifications(userId);
+  const { markAsRead, remove } = useNotificationActions(userId);
+
+  const notifications = useMemo(
+    () => data?.pages.flatMap((page) => page.notifications) ?? [],
+    [data]
+  );
+  const days = useMemo(() => groupNotifications(notifications), [notifications]);
+
+  // Carrega a próxima página quando o final da lista fica visível
+  useEffect(() => {
+    const element = loadMoreRef.current;
+    if (!element || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
       }
+    });
 
-      // Update local cache
-      queryClient.setQueryData<Notification[]>(["notifications"], (old) =>
-        old?.filter((n) => n.id !== id)
-      );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-      // Also invalidate the unreadNotifications query
-      queryClient.invalidateQueries({ queryKey: ["unreadNotifications"] });
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
 
-      toast.success("Notificação excluída com sucesso", {
-        position: "top-center",
-        style: { marginTop: "64px" }
-      });
-    } catch (error: any) {
-      console.error("Error in deleteNotification:", error);
-      toast.error("Erro ao excluir notificação", {
-        position: "top-center",
-        style: { marginTop: "64px" }
-      });
-    }
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id]
+    );
   };
 
-  const markAsRead = async (id: string) => {
-    try {
-      const { error } = await supabase
-        .from("notifications")
-        .update({ read: true })
-        .eq("id", id);
-
-      if (error) throw error;
-
-      // Update local cache
-      queryClient.setQueryData<Notification[]>(["notifications"], (old) =>
-        old?.map((n) => (n.id === id ? { ...n, read: true } : n))
-      );
-
-      // Also invalidate the unreadNotifications query
-      queryClient.invalidateQueries({ queryKey: ["unreadNotifications"] });
-
-      // Navigate if there's a reference_id
-      const notification = notifications.find(n => n.id === id);
-      if (notification?.reference_id) {
-        if (notification.type === 'event') {
-          navigate(`/eventos`);
-        } else if (notification.type === 'news') {
-          navigate(`/`);
-        }
-      }
-    } catch (error: any) {
-      toast.error("Erro ao marcar notificação como lida", {
-        position: "top-center",
-        style: { marginTop: "64px" }
+  const openNotification = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead.mutate([notification.id], {
+        onError: (error) => {
+          console.error("Error marking notification as read:", error);
+          toast.error("Erro ao marcar notificação como lida", TOAST_OPTIONS);
+        },
       });
     }
-  };
 
-  const markAllAsRead = async () => {
-    try {
-      const { error } = await supabase
-        .from("notifications")
-        .update({ read: true })
-        .eq("read", false);
-
-      if (error) throw error;
-
-      // Update local cache
-      queryClient.setQueryData<Notification[]>(["notifications"], (old) =>
-        old?.map((n) => ({ ...n, read: true }))
-      );
-
-      // Also invalidate the unreadNotifications query
-      queryClient.invalidateQueries({ queryKey: ["unreadNotifications"] });
-
-      toast.success("Todas as notificações foram marcadas como lidas", {
-        position: "top-center",
-        style: { marginTop: "64px" }
-      });
-    } catch (error: any) {
-      toast.error("Erro ao marcar notificações como lidas", {
-        position: "top-center",
-        style: { marginTop: "64px" }
-      });
+    if (notification.reference_id) {
+      navigate(getNotificationPath(notification.type, notification.reference_id));
     }
   };
 
-  const getNotificationIcon = (type: Notification["type"]) => {
-    switch (type) {
-      case "event":
-        return <Calendar className="h-4 w-4" />;
-      case "news":
-        return <Newspaper className="h-4 w-4" />;
-      default:
-        return <Bell className="h-4 w-4" />;
-    }
+  const deleteNotifications = (ids: string[]) => {
+    remove.mutate(ids, {
+      onSuccess: () => {
+        toast.success(
+          ids.length === 1 ? "Notificação excluída com sucesso" : `${ids.length} notificações excluídas`,
+          TOAST_OPTIONS
+        );
+        setSelectedIds((current) => current.filter((id) => !ids.includes(id)));
+      },
+      onError: (error) => {
+        console.error("Error deleting notifications:", error);
+        toast.error("Erro ao excluir notificação", TOAST_OPTIONS);
+      },
+    });
+  };
+
+  // Sem ids, marca todas do usuário, inclusive as que ainda não foram carregadas
+  const markManyAsRead = (ids?: string[]) => {
+    markAsRead.mutate(ids, {
+      onSuccess: () => {
+        toast.success(
+          ids ? "Notificações marcadas como lidas" : "Todas as notificações foram marcadas como lidas",
+          TOAST_OPTIONS
+        );
+        if (ids) stopSelecting();
+      },
+      onError: (error) => {
+        console.error("Error marking notifications as read:", error);
+        toast.error("Erro ao marcar notificações como lidas", TOAST_OPTIONS);
+      },
+    });
   };
 
   if (isLoading) {
@@ -240,6 +227,8 @@ const Notify = () => {
     );
   }
 
+  const allLoadedSelected = notifications.length > 0 && selectedIds.length === notifications.length;
+
   return (
     <>
       <Navbar />
@@ -250,139 +239,251 @@ const Notify = () => {
             <Bell className="h-6 w-6 text-primary" />
             <h1 className="text-xl font-bold">Notificações</h1>
             <Badge variant="secondary" className="ml-2">
-              {notifications.filter(n => !n.read).length} não lidas
+              {unreadCount} não lidas
             </Badge>
           </div>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center space-x-2">
-              <Switch
-                checked={notificationsEnabled}
-                onCheckedChange={toggleNotifications}
-                aria-label="Toggle notifications"
-              />
-              <span className="text-sm text-muted-foreground">
-                {notificationsEnabled ? "Notificações ativadas" : "Notificações desativadas"}
-              </span>
-            </div>
-            <Button 
-              onClick={markAllAsRead} 
-              variant="outline" 
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              onClick={() => navigate("/notify/preferencias")}
+              variant="ghost"
+              size="sm"
+              className="whitespace-nowrap"
+            >
+              <Settings className="h-4 w-4 mr-2" />
+              Preferências
+            </Button>
+            {notifications.length > 0 && (
+              <Button
+                onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                variant="ghost"
+                size="sm"
+                className="whitespace-nowrap"
+              >
+                {isSelecting ? "Cancelar" : "Selecionar"}
+              </Button>
+            )}
+            <Button
+              onClick={() => markManyAsRead()}
+              variant="outline"
               size="sm"
               className="whitespace-nowrap"
+              disabled={unreadCount === 0 || markAsRead.isPending}
             >
               Marcar todas como lidas
             </Button>
           </div>
         </div>
 
-        <div className="space-y-2">
-          {notifications.length === 0 ? (
+        {isSelecting && (
+          <div className="sticky top-16 z-10 mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-background p-3 shadow-sm">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="select-all-notifications"
+                checked={allLoadedSelected}
+                onCheckedChange={(checked) =>
+                  setSelectedIds(checked === true ? notifications.map((n) => n.id) : [])
+                }
+              />
+              <label htmlFor="select-all-notifications" className="text-sm">
+                {selectedIds.length} selecionadas
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedIds.length === 0 || markAsRead.isPending}
+                onClick={() => markManyAsRead(selectedIds)}
+              >
+                Marcar como lidas
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={selectedIds.length === 0 || remove.isPending}
+                onClick={() => setIsDeleteDialogOpen(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Excluir
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {isLoadingNotifications ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : notifications.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               Nenhuma notificação encontrada
             </div>
           ) : (
-            notifications.map((notification) => (
-              <div
-                key={notification.id}
-                className={cn(
-                  "group flex flex-col p-3 rounded-lg border transition-all",
-                  "hover:shadow-sm cursor-pointer",
-                  notification.read 
-                    ? "bg-muted/50 border-transparent"
-                    : "bg-background border-primary/10"
-                )}
-                onClick={() => markAsRead(notification.id)}
-              >
-                <div className="flex items-start gap-3">
-                  <div className="mt-1">
-                    {getNotificationIcon(notification.type)}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex flex-wrap items-center gap-2 mb-1">
-                      <Badge
-                        variant={notification.read ? "outline" : "default"}
+            days.map((day) => (
+              <section key={day.key} className="space-y-3">
+                <h2 className="text-sm font-semibold text-muted-foreground">{day.label}</h2>
+                {day.groups.map((group) => (
+                  <div key={group.type} className="space-y-2">
+                    <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                      {getNotificationIcon(group.type)}
+                      <span>{NOTIFICATION_TYPE_LABELS[group.type] || 'Notícia'}</span>
+                      <span>({group.notifications.length})</span>
+                    </div>
+                    {group.notifications.map((notification) => (
+                      <div
+                        key={notification.id}
                         className={cn(
-                          "text-xs font-medium",
-                          notification.type === 'event' && "bg-blue-500/10 text-blue-700",
-                          notification.type === 'news' && "bg-green-500/10 text-green-700"
+                          "group flex flex-col p-3 rounded-lg border transition-all",
+                          "hover:shadow-sm cursor-pointer",
+                          notification.read
+                            ? "bg-muted/50 border-transparent"
+                            : "bg-background border-primary/10",
+                          isSelecting && selectedIds.includes(notification.id) && "border-primary"
                         )}
+                        onClick={() =>
+                          isSelecting ? toggleSelected(notification.id) : openNotification(notification)
+                        }
                       >
-                        {notification.type === 'event' ? 'Evento' : 'Notícia'}
-                      </Badge>
-                      {notification.publication_category && (
-                        <Badge variant="outline" className="text-xs">
-                          {notification.publication_category}
-                        </Badge>
-                      )}
-                      {!notification.read && (
-                        <span className="h-1.5 w-1.5 rounded-full bg-primary animate-pulse" />
-                      )}
-                    </div>
-
-                    <h3 className={cn(
-                      "text-sm font-medium mb-0.5 truncate",
-                      !notification.read && "text-primary"
-                    )}>
-                      {notification.publication_title || notification.title}
-                    </h3>
-                    
-                    {notification.publication_description && (
-                      <p className="text-xs text-muted-foreground mb-1 line-clamp-1">
-                        {notification.publication_description}
-                      </p>
-                    )}
-                    
-                    <p className="text-xs text-muted-foreground line-clamp-1">
-                      {notification.message}
-                    </p>
-
-                    <div className="flex items-center justify-between mt-2">
-                      <div className="flex items-center gap-2">
-                        {notification.reference_id && (
-                          <Button
-                            variant="link"
-                            size="sm"
-                            className="h-auto p-0 text-xs"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              markAsRead(notification.id);
-                            }}
-                          >
-                            Ver detalhes
-                            <ChevronRight className="ml-1 h-3 w-3" />
-                          </Button>
-                        )}
-                      </div>
-                      
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        <span>
-                          {format(new Date(notification.created_at), "dd MMM HH:mm", { locale: ptBR })}
-                        </span>
-                        {notification.read ? (
-                          <CheckCircle className="h-3 w-3 text-green-500" />
-                        ) : (
-                          <Clock className="h-3 w-3 text-yellow-500" />
-                        )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-6 w-6 p-0 hover:bg-destructive/10 hover:text-destructive"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteNotification(notification.id);
-                          }}
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
+                        <div className="flex items-start gap-3">
+                          <div className="mt-1">
+                            {isSelecting ? (
+                              <Checkbox
+                                checked={selectedIds.includes(notification.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                onCheckedChange={() => toggleSelected(notification.id)}
+                                aria-label="Selecionar notificação"
+                              />
+                            ) : (
+                              getNotificationIcon(notification.type)
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex flex-wrap items-center gap-2 mb-1">
+                              <Badge
+                                variant={notification.read ? "outline" : "default"}
+                                className={cn(
+                                  "text-xs font-medium",
+                                  notification.type === 'event' && "bg-blue-500/10 text-blue-700",
+                                  notification.type === 'news' && "bg-green-500/10 text-green-700",
+                                  notification.type === 'product' && "bg-orange-500/10 text-orange-700",
+                                  notification.type === 'moderation' && "bg-red-500/10 text-red-700"
+                                )}
+                              >
+                                {NOTIFICATION_TYPE_LABELS[notification.type] || 'Notícia'}
+                              </Badge>
+                              {notification.publication_category && (
+                                <Badge variant="outline" className="text-xs">
+                                  {notification.publication_category}
+                                </Badge>
+                              )}
+                              {!notification.read && (
+                                <span className="h-1.5 w-1.5 rounded-full bg-primary animate-pulse" />
+                              )}
+                            </div>
+
+                            <h3 className={cn(
+                              "text-sm font-medium mb-0.5 truncate",
+                              !notification.read && "text-primary"
+                            )}>
+                              {notification.publication_title || notification.title}
+                            </h3>
+
+                            {notification.publication_description && (
+                              <p className="text-xs text-muted-foreground mb-1 line-clamp-1">
+                                {notification.publication_description}
+                              </p>
+                            )}
+
+                            {/* Notícias publicadas trazem o próprio título como mensagem */}
+                            {notification.message !== notification.publication_title && (
+                              <p className="text-xs text-muted-foreground line-clamp-1">
+                                {notification.message}
+                              </p>
+                            )}
+
+                            <div className="flex items-center justify-between mt-2">
+                              <div className="flex items-center gap-2">
+                                {notification.reference_id && !isSelecting && (
+                                  <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="h-auto p-0 text-xs"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      openNotification(notification);
+                                    }}
+                                  >
+                                    Ver detalhes
+                                    <ChevronRight className="ml-1 h-3 w-3" />
+                                  </Button>
+                                )}
+                              </div>
+
+                              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                <span>
+                                  {format(new Date(notification.created_at), "HH:mm", { locale: ptBR })}
+                                </span>
+                                {notification.read ? (
+                                  <CheckCircle className="h-3 w-3 text-green-500" />
+                                ) : (
+                                  <Clock className="h-3 w-3 text-yellow-500" />
+                                )}
+                                {!isSelecting && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0 hover:bg-destructive/10 hover:text-destructive"
+                                    aria-label="Excluir notificação"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      deleteNotifications([notification.id]);
+                                    }}
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                          </div>
+                        </div>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                </div>
-              </div>
+                ))}
+              </section>
             ))
           )}
+
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="flex justify-center py-4">
+              {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+            </div>
+          )}
         </div>
       </div>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir notificações</AlertDialogTitle>
+            <AlertDialogDescription>
+              Excluir {selectedIds.length} {selectedIds.length === 1 ? "notificação selecionada" : "notificações selecionadas"}? Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                deleteNotifications(selectedIds);
+                stopSelecting();
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <BottomNav />
     </>
   );
@@ -0,0 +1,345 @@
+
+import { useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  ArrowLeft,
+  Share2,
+  MapPin,
+  User2,
+  Wallet,
+  Phone,
+  MessageCircle,
+  Globe,
+  Facebook,
+  Instagram,
+  CalendarDays,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import MediaCarousel from "@/components/MediaCarousel";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import ReportButton from "@/components/ReportButton";
+import MapView from "@/components/map/MapView";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+import type { Database } from "@/integrations/supabase/types";
+import { WEEKDAY_LABELS, formatPeriods, parseOpeningHours } from "@/utils/openingHours";
+
+type Place = Database['public']['Tables']['places']['Row'] & {
+  categories: {
+    name: string;
+    background_color: string | null;
+  } | null;
+};
+
+const PlaceDetails = () => {
+  const { id } = useParams();
+
+  const { data: place, isLoading } = useQuery({
+    queryKey: ["place", id],
+    queryFn: async () => {
+      if (!id) {
+        throw new Error("ID do lugar não encontrado");
+      }
+
+      const { data, error } = await supabase
+        .from("places")
+        .select("*, categories(name, background_color)")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching place:", error);
+        throw error;
+      }
+
+      return data as Place | null;
+    },
+  });
+
+  useEffect(() => {
+    if (place) {
+      document.title = `${place.name} | Vale Notícias`;
+    }
+  }, [place]);
+
+  const handleShare = async () => {
+    if (!place) return;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: place.name,
+          text: place.description,
+          url: window.location.href,
+        });
+      } else {
+        await navigator.clipboard.writeText(window.location.href);
+        toast.success("Link copiado para a área de transferência!");
+      }
+    } catch (error) {
+      console.error("Error sharing:", error);
+      toast.error("Erro ao compartilhar");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 flex-1">
+          <div className="animate-pulse max-w-4xl mx-auto">
+            <div className="h-8 bg-gray-200 rounded w-3/4 mb-4"></div>
+            <div className="h-64 bg-gray-200 rounded w-full mb-8"></div>
+            <div className="h-4 bg-gray-200 rounded w-full mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          </div>
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  if (!place) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 text-center flex-1">
+          <h1 className="text-2xl font-bold mb-4">Lugar não encontrado</h1>
+          <p className="text-gray-600">O lugar que você está procurando não existe ou foi removido.</p>
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  const socialMedia = place.social_media as { facebook?: string; instagram?: string } | null;
+  const openingHours = parseOpeningHours(place.opening_hours);
+  const today = new Date().getDay();
+  const todayKey = format(new Date(), "yyyy-MM-dd");
+  const upcomingExceptions = openingHours?.exceptions.filter((exception) => exception.date >= todayKey) || [];
+  const hasWeeklySchedule = openingHours?.weekly.some((day) => !day.closed);
+  const hasMedia = place.images?.length > 0 || place.video_urls?.length > 0;
+
+  return (
+    <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+      <Navbar />
+      <SubNav />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                to="/lugares"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Voltar</span>
+              </Link>
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleShare}
+                  className="rounded-full hover:scale-105 transition-all duration-300 shadow-lg"
+                >
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Compartilhar
+                </Button>
+                <ReportButton
+                  targetType="place"
+                  targetId={place.id}
+                  label="Denunciar"
+                  variant="secondary"
+                  className="rounded-full hover:scale-105 transition-all duration-300 shadow-lg"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h1 className="text-2xl md:text-3xl font-bold leading-tight">{place.name}</h1>
+              <div className="flex flex-wrap items-center gap-2">
+                {place.categories && (
+                  <Badge
+                    style={{
+                      backgroundColor: place.categories.background_color ? `${place.categories.background_color}40` : '#D6BCFA40',
+                      color: place.categories.background_color || '#1A1F2C'
+                    }}
+                  >
+                    {place.categories.name}
+                  </Badge>
+                )}
+                <OpeningStatusBadge openingHours={place.opening_hours} />
+              </div>
+            </div>
+
+            {hasMedia && (
+              <div className="rounded-2xl overflow-hidden shadow-xl aspect-video">
+                <MediaCarousel
+                  images={place.images || []}
+                  videoUrls={place.video_urls || []}
+                  title={place.name}
+                />
+              </div>
+            )}
+
+            <p className="whitespace-pre-line text-base leading-relaxed">{place.description}</p>
+
+            <div className="space-y-2">
+              {place.address && (
+                <div className="flex items-center gap-2 text-sm">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">{place.address}</span>
+                </div>
+              )}
+              {place.owner_name && (
+                <div className="flex items-center gap-2 text-sm">
+                  <User2 className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">{place.owner_name}</span>
+                </div>
+              )}
+              {place.entrance_fee && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Wallet className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Entrada: {place.entrance_fee}</span>
+                </div>
+              )}
+            </div>
+
+            {openingHours && (
+              <section className="space-y-3">
+                <h2 className="text-lg font-semibold">Horário de funcionamento</h2>
+                {hasWeeklySchedule && (
+                  <div className="rounded-lg border divide-y">
+                    {openingHours.weekly.map((day, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          "flex justify-between px-4 py-2 text-sm",
+                          index === today && "bg-muted font-medium"
+                        )}
+                      >
+                        <span>{WEEKDAY_LABELS[index]}</span>
+                        <span className={cn(day.closed && "text-muted-foreground")}>
+                          {day.closed ? "Fechado" : formatPeriods(day.periods)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {upcomingExceptions.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium flex items-center gap-2">
+                      <CalendarDays className="w-4 h-4" />
+                      Feriados e datas especiais
+                    </h3>
+                    {upcomingExceptions.map((exception) => (
+                      <div key={exception.date} className="flex justify-between text-sm text-muted-foreground">
+                        <span>
+                          {format(new Date(`${exception.date}T00:00:00`), "dd 'de' MMMM", { locale: ptBR })}
+                          {exception.label && ` · ${exception.label}`}
+                        </span>
+                        <span>{exception.closed ? "Fechado" : formatPeriods(exception.periods)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {openingHours.note && (
+                  <p className="text-sm text-muted-foreground">{openingHours.note}</p>
+                )}
+              </section>
+            )}
+
+            {place.latitude != null && place.longitude != null && (
+              <MapView
+                markers={[{ id: place.id, latitude: place.latitude, longitude: place.longitude, title: place.name }]}
+                selectedId={place.id}
+                onSelect={() => place.maps_url && window.open(place.maps_url, "_blank")}
+                className="h-64"
+              />
+            )}
+
+            <div className="pt-4 border-t border-border flex flex-wrap gap-4">
+              {place.phone && (
+                <a
+                  href={`tel:${place.phone}`}
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  <Phone className="w-4 h-4" />
+                  {place.phone}
+                </a>
+              )}
+              {place.whatsapp && (
+                <a
+                  href={`https://wa.me/${place.whatsapp.replace(/\D/g, '')}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  WhatsApp
+                </a>
+              )}
+              {place.website && (
+                <a
+                  href={place.website}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-purple-600 hover:text-purple-800 dark:text-purple-400 dark:hover:text-purple-300"
+                >
+                  <Globe className="w-4 h-4" />
+                  Site
+                </a>
+              )}
+              {socialMedia?.facebook && (
+                <a
+                  href={socialMedia.facebook}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  <Facebook className="w-4 h-4" />
+                  Facebook
+                </a>
+              )}
+              {socialMedia?.instagram && (
+                <a
+                  href={socialMedia.instagram}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-pink-600 hover:text-pink-800 dark:text-pink-400 dark:hover:text-pink-300"
+                >
+                  <Instagram className="w-4 h-4" />
+                  Instagram
+                </a>
+              )}
+              {place.maps_url && (
+                <a
+                  href={place.maps_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                >
+                  <MapPin className="w-4 h-4" />
+                  Como chegar
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+      <BottomNav />
+    </div>
+  );
+};
+
+export default PlaceDetails;
@@ -1,7 +1,7 @@
 
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Search, Bell, Menu } from "lucide-react";
+import { Search, Menu, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -12,17 +12,22 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { PlaceCard } from "@/components/PlaceCard";
+import MapView from "@/components/map/MapView";
+import ViewModeToggle, { type ViewMode } from "@/components/map/ViewModeToggle";
 import Navbar from "../components/Navbar";
 import SubNav from "../components/SubNav";
 import Footer from "../components/Footer";
 import BottomNav from "../components/BottomNav";
+import NotificationTopicButton from "../components/NotificationTopicButton";
 import { toast } from "sonner";
-import { useNavigate } from "react-router-dom";
+import { isOpenNow } from "@/utils/openingHours";
 
 const Places = () => {
-  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
 
   useEffect(() => {
     document.title = "Lugares | Vale Notícias";
@@ -70,51 +75,20 @@ const Places = () => {
     },
   });
 
-  const handleNotificationClick = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast.error('Faça login para ativar as notificações');
-        return;
-      }
-
-      const { data: existing } = await supabase
-        .from('notifications')
-        .select('enabled')
-        .eq('user_id', user.id)
-        .eq('type', 'places')
-        .single();
+  const visiblePlaces = openNowOnly
+    ? (places || []).filter((place) => isOpenNow(place.opening_hours))
+    : places;
 
-      const newStatus = !existing?.enabled;
+  const mapMarkers = (visiblePlaces || [])
+    .filter((place) => place.latitude != null && place.longitude != null)
+    .map((place) => ({
+      id: place.id,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      title: place.name,
+    }));
 
-      const { error } = await supabase
-        .from('notifications')
-        .upsert({
-          user_id: user.id,
-          type: 'places',
-          enabled: newStatus,
-          title: 'Notificações de Lugares',
-          message: newStatus ? 'Você receberá notificações de novos lugares' : 'Notificações de lugares desativadas',
-          read: false
-        });
-
-      if (error) {
-        console.error('Error updating notification settings:', error);
-        toast.error('Erro ao atualizar notificações');
-        return;
-      }
-
-      toast.success(newStatus 
-        ? 'Notificações de lugares ativadas!' 
-        : 'Notificações de lugares desativadas');
-
-      navigate('/notify');
-    } catch (error) {
-      console.error('Error handling notifications:', error);
-      toast.error('Erro ao configurar notificações');
-    }
-  };
+  const selectedPlace = visiblePlaces?.find((place) => place.id === selectedPlaceId);
 
   return (
     <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
@@ -123,14 +97,7 @@ const Places = () => {
       <main className="flex-1 container mx-auto py-8 px-4">
         <div className="sticky top-16 z-10 bg-background/80 backdrop-blur-sm pb-4">
           <div className="flex gap-2">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleNotificationClick}
-              className="hover:scale-105 transition-transform text-foreground"
-            >
-              <Bell className="h-5 w-5" />
-            </Button>
+            <NotificationTopicButton topic="places" />
             <div className="relative flex-1">
               <Input
                 placeholder="Buscar lugares..."
@@ -170,6 +137,18 @@ const Places = () => {
                 ))}
               </DropdownMenuContent>
             </DropdownMenu>
+            <ViewModeToggle value={viewMode} onChange={setViewMode} />
+          </div>
+          <div className="flex gap-2 mt-3">
+            <Button
+              variant={openNowOnly ? "default" : "outline"}
+              size="sm"
+              onClick={() => setOpenNowOnly(!openNowOnly)}
+              className="rounded-full"
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              Aberto agora
+            </Button>
           </div>
         </div>
 
@@ -177,12 +156,27 @@ const Places = () => {
           <div className="flex justify-center items-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
           </div>
+        ) : viewMode === "map" ? (
+          <div className="space-y-6">
+            <MapView
+              markers={mapMarkers}
+              selectedId={selectedPlaceId}
+              onSelect={setSelectedPlaceId}
+            />
+            {selectedPlace ? (
+              <PlaceCard place={selectedPlace} />
+            ) : (
+              <p className="text-muted-foreground text-center">
+                Toque em um lugar no mapa para ver os detalhes.
+              </p>
+            )}
+          </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {places?.map((place) => (
+            {visiblePlaces?.map((place) => (
               <PlaceCard key={place.id} place={place} />
             ))}
-            {!isLoading && (!places || places.length === 0) && (
+            {!isLoading && (!visiblePlaces || visiblePlaces.length === 0) && (
               <p className="text-muted-foreground col-span-full text-center py-8">
                 Nenhum lugar encontrado.
               </p>
@@ -1,5 +1,5 @@
-import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Share2, Heart } from "lucide-react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, Share2, Heart, MessageCircle, Pencil } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
@@ -15,12 +15,18 @@ import SubNav from "../components/SubNav";
 import BottomNav from "../components/BottomNav";
 import { useState, useEffect } from "react";
 import { useSiteConfig } from "../hooks/useSiteConfig";
+import { PRODUCT_STATUS_LABELS, getEffectiveProductStatus } from "../utils/productStatus";
+import ReportButton from "../components/ReportButton";
+import SellerRating from "../components/SellerRating";
+import SellerReviews from "../components/SellerReviews";
 
 const ProductDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isFavorite, setIsFavorite] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isOpeningChat, setIsOpeningChat] = useState(false);
   const { data: siteConfig } = useSiteConfig();
 
   const { data: product, isLoading, error } = useQuery({
@@ -35,8 +41,11 @@ const ProductDetails = () => {
         .select(`
           *,
           profiles (
+            username,
             full_name,
-            avatar_url
+            avatar_url,
+            rating_average,
+            rating_count
           )
         `)
         .eq('id', id)
@@ -57,6 +66,12 @@ const ProductDetails = () => {
     },
   });
 
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+  }, []);
+
   useEffect(() => {
     const checkFavoriteStatus = async () => {
       try {
@@ -116,10 +131,37 @@ const ProductDetails = () => {
       const whatsappLink = `https://wa.me/${product.whatsapp.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
       window.open(whatsappLink, '_blank');
     } else {
+      handleMessage();
+    }
+  };
+
+  const handleMessage = async () => {
+    if (!currentUserId) {
+      toast({
+        description: "Faça login para enviar mensagens",
+        variant: "destructive",
+      });
+      navigate("/login");
+      return;
+    }
+
+    setIsOpeningChat(true);
+    try {
+      const { data: chatId, error } = await supabase.rpc("create_private_chat", {
+        other_user_id: product.user_id,
+      });
+
+      if (error) throw error;
+
+      navigate(`/mensagens/${chatId}`);
+    } catch (error) {
+      console.error("Error opening chat:", error);
       toast({
+        description: "Erro ao abrir conversa com o vendedor",
         variant: "destructive",
-        description: "Este produto não tem número de WhatsApp cadastrado",
       });
+    } finally {
+      setIsOpeningChat(false);
     }
   };
 
@@ -205,6 +247,10 @@ const ProductDetails = () => {
     );
   }
 
+  const status = getEffectiveProductStatus(product);
+  // Reservados ainda aceitam mensagens; vendidos, pausados e expirados não
+  const isAvailable = status === "active" || status === "reserved";
+
   return (
     <>
       <Navbar />
@@ -240,6 +286,13 @@ const ProductDetails = () => {
             >
               <Share2 className="h-6 w-6" />
             </Button>
+            {product.user_id !== currentUserId && (
+              <ReportButton
+                targetType="product"
+                targetId={product.id}
+                className="hover:scale-105 transition-transform"
+              />
+            )}
           </div>
         </div>
 
@@ -260,15 +313,36 @@ const ProductDetails = () => {
                 )}
               </div>
               <div className="flex-1">
-                <p className="font-semibold text-lg">
-                  {product?.profiles?.full_name || 'Usuário'}
-                </p>
+                {product.profiles?.username ? (
+                  <Link
+                    to={`/u/${product.profiles.username}`}
+                    className="block font-semibold text-lg hover:underline"
+                  >
+                    {product.profiles.full_name || `@${product.profiles.username}`}
+                  </Link>
+                ) : (
+                  <p className="font-semibold text-lg">
+                    {product?.profiles?.full_name || 'Usuário'}
+                  </p>
+                )}
+                <SellerRating
+                  average={product.profiles?.rating_average}
+                  count={product.profiles?.rating_count}
+                />
                 {product?.created_at && (
                   <p className="text-sm text-muted-foreground">
                     Anunciado há {formatDistance(new Date(product.created_at), new Date(), { locale: ptBR })}
                   </p>
                 )}
               </div>
+              {product.user_id && product.user_id !== currentUserId && (
+                <ReportButton
+                  targetType="profile"
+                  targetId={product.user_id}
+                  label="Denunciar vendedor"
+                  className="text-muted-foreground"
+                />
+              )}
             </div>
           </div>
 
@@ -289,6 +363,11 @@ const ProductDetails = () => {
               <p className="text-3xl font-bold text-primary">
                 R$ {product?.price.toFixed(2)}
               </p>
+              {status !== "active" && (
+                <Badge variant={isAvailable ? "secondary" : "destructive"} className="mt-2">
+                  {PRODUCT_STATUS_LABELS[status]}
+                </Badge>
+              )}
             </div>
             
             <Card className="bg-muted/50">
@@ -310,13 +389,44 @@ const ProductDetails = () => {
                 </CardContent>
               </Card>
             )}
+
+            {product.user_id && (
+              <SellerReviews
+                sellerId={product.user_id}
+                productId={product.id}
+                ratingAverage={product.profiles?.rating_average}
+                ratingCount={product.profiles?.rating_count}
+              />
+            )}
           </div>
         </div>
 
-        <div className="fixed bottom-16 left-0 right-0 p-4 bg-background/80 backdrop-blur-md border-t border-border">
+        <div className="fixed bottom-16 left-0 right-0 p-4 bg-background/80 backdrop-blur-md border-t border-border flex gap-2">
+          {currentUserId && product.user_id === currentUserId && (
+            <Button
+              variant="outline"
+              className="h-12 text-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+              onClick={() => navigate(`/products/${product.id}/edit`)}
+            >
+              <Pencil className="h-5 w-5 mr-2" />
+              Editar
+            </Button>
+          )}
+          {product.user_id !== currentUserId && (
+            <Button
+              variant="outline"
+              className="h-12 text-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+              onClick={handleMessage}
+              disabled={isOpeningChat || !isAvailable}
+            >
+              <MessageCircle className="h-5 w-5 mr-2" />
+              Mensagem
+            </Button>
+          )}
           <Button 
-            className="w-full h-12 text-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
+            className="flex-1 h-12 text-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-300"
             onClick={handleContact}
+            disabled={!isAvailable}
             style={{ backgroundColor: siteConfig?.buy_button_color }}
           >
             {siteConfig?.buy_button_text || "Comprar agora"}
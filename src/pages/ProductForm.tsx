@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
-import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ChevronLeft, ChevronRight, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -17,19 +17,22 @@ import { supabase } from "../integrations/supabase/client";
 import type { ProductFormData } from "../types/products";
 import type { Location } from "../types/locations";
 import { useQuery } from "@tanstack/react-query";
+import MediaUploader from "@/components/MediaUploader";
+import VideoThumbnail from "@/components/VideoThumbnail";
+import { MediaUrlError, normalizeMediaUrl } from "@/utils/mediaUrl";
+import { useMediaCleanup } from "@/hooks/useMediaCleanup";
 
 const ProductForm = () => {
   const navigate = useNavigate();
-  const location = useLocation();
-  const searchParams = new URLSearchParams(location.search);
-  const editProductId = searchParams.get('edit');
+  const { id: editProductId } = useParams();
   
   const [loading, setLoading] = useState(false);
-  const [newImageUrl, setNewImageUrl] = useState("");
+  const [loadingProduct, setLoadingProduct] = useState(!!editProductId);
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [newVideoUrl, setNewVideoUrl] = useState("");
   const [videoUrls, setVideoUrls] = useState<string[]>([]);
   const [userLocationId, setUserLocationId] = useState<string | null>(null);
+  const media = useMediaCleanup();
 
   const [formData, setFormData] = useState<ProductFormData>({
     title: "",
@@ -40,6 +43,9 @@ const ProductForm = () => {
   });
 
   useEffect(() => {
+    // Na edição a localização vem do próprio produto
+    if (editProductId) return;
+
     const fetchUserLocation = async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
@@ -57,7 +63,7 @@ const ProductForm = () => {
     };
 
     fetchUserLocation();
-  }, []);
+  }, [editProductId]);
 
   const { data: location_details } = useQuery({
     queryKey: ['location', userLocationId],
@@ -80,6 +86,7 @@ const ProductForm = () => {
       if (!editProductId) return;
 
       try {
+        const { data: { user } } = await supabase.auth.getUser();
         const { data: product, error } = await supabase
           .from('products')
           .select('*')
@@ -88,6 +95,12 @@ const ProductForm = () => {
 
         if (error) throw error;
 
+        if (!user || product.user_id !== user.id) {
+          toast.error("Você não tem permissão para editar este produto");
+          navigate("/user-products", { replace: true });
+          return;
+        }
+
         if (product) {
           setFormData({
             title: product.title,
@@ -100,41 +113,25 @@ const ProductForm = () => {
           });
           setImageUrls(product.images || []);
           setVideoUrls(product.video_urls || []);
+          media.reset([...(product.images || []), ...(product.video_urls || [])]);
           if (product.location_id) {
             setUserLocationId(product.location_id);
           }
         }
       } catch (error) {
         toast.error("Erro ao carregar produto");
+        navigate("/user-products", { replace: true });
+      } finally {
+        setLoadingProduct(false);
       }
     };
 
     loadProduct();
-  }, [editProductId]);
-
-  const handleAddImage = () => {
-    if (!newImageUrl) {
-      toast.error("Por favor, insira uma URL de imagem válida");
-      return;
-    }
-
-    if (!newImageUrl.includes('dropbox.com')) {
-      toast.error("Por favor, insira uma URL válida do Dropbox");
-      return;
-    }
-
-    let directImageUrl = newImageUrl;
-    if (newImageUrl.includes('www.dropbox.com')) {
-      directImageUrl = newImageUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
+  }, [editProductId, navigate, media]);
 
-    if (!imageUrls.includes(directImageUrl)) {
-      setImageUrls([...imageUrls, directImageUrl]);
-      setNewImageUrl("");
-      toast.success("Imagem adicionada com sucesso!");
-    } else {
-      toast.error("Esta imagem já foi adicionada");
-    }
+  const handleImagesUploaded = (urls: string[]) => {
+    media.trackUploads(urls);
+    setImageUrls((prev) => [...prev, ...urls]);
   };
 
   const handleRemoveImage = (imageUrl: string) => {
@@ -142,27 +139,32 @@ const ProductForm = () => {
     toast.success("Imagem removida com sucesso!");
   };
 
+  // A primeira imagem é usada como capa nas listagens
+  const handleMoveImage = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= imageUrls.length) return;
+
+    const reordered = [...imageUrls];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setImageUrls(reordered);
+  };
+
   const handleAddVideo = () => {
     if (!newVideoUrl) {
       toast.error("Por favor, insira uma URL de vídeo válida");
       return;
     }
 
-    const isDropboxUrl = newVideoUrl.includes('dropbox.com');
-    const isYoutubeUrl = newVideoUrl.includes('youtube.com') || newVideoUrl.includes('youtu.be');
-
-    if (!isDropboxUrl && !isYoutubeUrl) {
-      toast.error("Por favor, insira uma URL válida do Dropbox ou YouTube");
+    let videoUrl: string;
+    try {
+      videoUrl = normalizeMediaUrl(newVideoUrl, "video", { providers: ["youtube"] }).url;
+    } catch (error) {
+      toast.error(error instanceof MediaUrlError ? error.message : "URL de vídeo inválida");
       return;
     }
 
-    let directVideoUrl = newVideoUrl;
-    if (isDropboxUrl && newVideoUrl.includes('www.dropbox.com')) {
-      directVideoUrl = newVideoUrl.replace('www.dropbox.com', 'dl.dropboxusercontent.com');
-    }
-
-    if (!videoUrls.includes(directVideoUrl)) {
-      setVideoUrls([...videoUrls, directVideoUrl]);
+    if (!videoUrls.includes(videoUrl)) {
+      setVideoUrls([...videoUrls, videoUrl]);
       setNewVideoUrl("");
       toast.success("Vídeo adicionado com sucesso!");
     } else {
@@ -196,23 +198,27 @@ const ProductForm = () => {
         location_name: location_details?.name
       };
 
-      let error;
-
-      if (editProductId) {
-        ({ error } = await supabase
-          .from("products")
-          .update(productData)
-          .eq('id', editProductId));
-      } else {
-        ({ error } = await supabase
-          .from("products")
-          .insert(productData));
-      }
+      await media.save([...imageUrls, ...videoUrls], async () => {
+        let error;
+
+        if (editProductId) {
+          ({ error } = await supabase
+            .from("products")
+            .update(productData)
+            .eq('id', editProductId)
+            .eq('user_id', user.id));
+        } else {
+          ({ error } = await supabase
+            .from("products")
+            .insert(productData));
+        }
 
-      if (error) throw error;
+        if (error) throw error;
+        return true;
+      });
 
       toast.success(editProductId ? "Produto atualizado com sucesso!" : "Produto adicionado com sucesso!");
-      navigate("/products");
+      navigate(editProductId ? `/product/${editProductId}` : "/products");
     } catch (error: any) {
       toast.error("Erro ao " + (editProductId ? "atualizar" : "adicionar") + " produto: " + error.message);
     } finally {
@@ -220,6 +226,19 @@ const ProductForm = () => {
     }
   };
 
+  if (loadingProduct) {
+    return (
+      <div className="container mx-auto px-4 py-6 pb-20">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/2"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="container mx-auto px-4 py-6 pb-20">
       <div className="flex items-center gap-4 mb-6">
@@ -242,31 +261,59 @@ const ProductForm = () => {
         )}
 
         <div className="space-y-2">
-          <Label>Imagens do Dropbox</Label>
+          <Label>Imagens</Label>
           <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                value={newImageUrl}
-                onChange={(e) => setNewImageUrl(e.target.value)}
-                placeholder="Cole a URL compartilhada do Dropbox"
-              />
-              <Button type="button" onClick={handleAddImage}>
-                <Plus className="h-4 w-4 mr-2" />
-                Adicionar
-              </Button>
-            </div>
-            <div className="grid grid-cols-1 gap-2">
+            <MediaUploader
+              bucket="media"
+              folder="products"
+              multiple
+              label="Enviar imagens"
+              onUploaded={handleImagesUploaded}
+            />
+            <div className="grid grid-cols-3 gap-2">
               {imageUrls.map((url, index) => (
-                <div key={index} className="flex items-center gap-2">
-                  <Input value={url} readOnly />
+                <div key={url} className="relative aspect-square rounded-md overflow-hidden bg-muted">
+                  <img src={url} alt={`Imagem ${index + 1}`} className="w-full h-full object-cover" />
+                  {index === 0 && (
+                    <span className="absolute top-1 left-1 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+                      Capa
+                    </span>
+                  )}
                   <Button
                     type="button"
                     variant="destructive"
                     size="icon"
+                    className="absolute top-1 right-1 h-7 w-7"
                     onClick={() => handleRemoveImage(url)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
+                  {imageUrls.length > 1 && (
+                    <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => handleMoveImage(index, -1)}
+                        aria-label="Mover para a esquerda"
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === imageUrls.length - 1}
+                        onClick={() => handleMoveImage(index, 1)}
+                        aria-label="Mover para a direita"
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -274,13 +321,23 @@ const ProductForm = () => {
         </div>
 
         <div className="space-y-2">
-          <Label>Vídeos (Dropbox ou YouTube)</Label>
+          <Label>Vídeos</Label>
           <div className="space-y-4">
+            <MediaUploader
+              bucket="media"
+              folder="products"
+              accept="video/*"
+              label="Enviar vídeo"
+              onUploaded={(urls) => {
+                media.trackUploads(urls);
+                setVideoUrls((prev) => [...prev, ...urls]);
+              }}
+            />
             <div className="flex gap-2">
               <Input
                 value={newVideoUrl}
                 onChange={(e) => setNewVideoUrl(e.target.value)}
-                placeholder="Cole a URL do Dropbox ou YouTube"
+                placeholder="Ou cole a URL do YouTube"
               />
               <Button type="button" onClick={handleAddVideo}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -290,6 +347,7 @@ const ProductForm = () => {
             <div className="grid grid-cols-1 gap-2">
               {videoUrls.map((url, index) => (
                 <div key={index} className="flex items-center gap-2">
+                  <VideoThumbnail url={url} />
                   <Input value={url} readOnly />
                   <Button
                     type="button"
@@ -370,7 +428,7 @@ const ProductForm = () => {
         </div>
 
         <Button type="submit" className="w-full" disabled={loading}>
-          {loading ? "Publicando..." : (editProductId ? "Atualizar Produto" : "Publicar Produto")}
+          {loading ? (editProductId ? "Salvando..." : "Publicando...") : (editProductId ? "Atualizar Produto" : "Publicar Produto")}
         </Button>
       </form>
     </div>
@@ -1,12 +1,12 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Search, User, Menu, ChevronDown } from "lucide-react";
+import { Search, User, Menu, ChevronDown, LocateFixed, SlidersHorizontal } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import type { Product } from "@/types/products";
+import type { ProductSearchFilters } from "@/types/products";
 import type { Location } from "@/types/locations";
 import { useQuery } from "@tanstack/react-query";
 import Navbar from "@/components/Navbar";
@@ -34,6 +34,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { formatDistanceMeters } from "@/utils/formatDistance";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useProductSearch, type ProductSearchResult } from "@/hooks/useProductSearch";
+import MapView from "@/components/map/MapView";
+import ViewModeToggle, { type ViewMode } from "@/components/map/ViewModeToggle";
+import SavedSearchesDialog from "@/components/SavedSearchesDialog";
+import SellerRating from "@/components/SellerRating";
+import type { SavedSearch, SavedSearchInput } from "@/hooks/useSavedSearches";
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
 
 const Products = () => {
   const navigate = useNavigate();
@@ -44,6 +57,16 @@ const Products = () => {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [radiusValue, setRadiusValue] = useState([5]);
   const [customRadius, setCustomRadius] = useState("");
+  const [userCoords, setUserCoords] = useState<Coordinates | null>(null);
+  const [showFiltersDialog, setShowFiltersDialog] = useState(false);
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [condition, setCondition] = useState<string | null>(null);
+  const [postedWithinDays, setPostedWithinDays] = useState<number | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const debouncedSearchTerm = useDebounce(searchTerm);
 
   const { data: categories } = useQuery({
     queryKey: ["categories-products"],
@@ -72,42 +95,196 @@ const Products = () => {
     }
   });
 
-  const { data: products, isLoading } = useQuery({
-    queryKey: ["products", selectedLocation?.id, radiusValue[0]],
-    queryFn: async () => {
-      let query = supabase
-        .from("products")
-        .select("*, profiles(full_name, avatar_url)")
-        .order("created_at", { ascending: false });
+  // Origem da busca por raio: localização do aparelho ou centro da cidade selecionada
+  const searchOrigin: Coordinates | null = userCoords ?? (
+    selectedLocation?.latitude != null && selectedLocation?.longitude != null
+      ? { latitude: selectedLocation.latitude, longitude: selectedLocation.longitude }
+      : null
+  );
 
-      if (selectedCategory) {
-        query = query.eq("category_id", selectedCategory);
-      }
+  const filters: ProductSearchFilters = {
+    searchTerm: debouncedSearchTerm,
+    categoryId: selectedCategory,
+    locationId: selectedLocation?.id,
+    condition,
+    minPrice: minPrice ? parseFloat(minPrice) : null,
+    maxPrice: maxPrice ? parseFloat(maxPrice) : null,
+    postedWithinDays,
+    origin: searchOrigin,
+    radiusKm: radiusValue[0],
+  };
 
-      if (selectedLocation) {
-        query = query.eq("location_id", selectedLocation.id);
-      }
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useProductSearch(filters);
 
-      const { data, error } = await query;
+  // Filtros guardados numa busca salva; "data do anúncio" não faz sentido para alertas futuros
+  const currentSearch: SavedSearchInput = {
+    name: "",
+    search_term: debouncedSearchTerm.trim() || null,
+    category_id: selectedCategory,
+    location_id: selectedLocation?.id ?? null,
+    condition,
+    min_price: filters.minPrice,
+    max_price: filters.maxPrice,
+    latitude: searchOrigin?.latitude ?? null,
+    longitude: searchOrigin?.longitude ?? null,
+    radius_km: searchOrigin ? radiusValue[0] : null,
+  };
 
-      if (error) throw error;
-      return data as Product[];
-    },
-  });
+  const suggestedSearchName =
+    debouncedSearchTerm.trim() ||
+    categories?.find((category) => category.id === selectedCategory)?.name ||
+    selectedLocation?.name ||
+    "Minha busca";
+
+  const products = data?.pages.flatMap((page) => page.products) || [];
+
+  const mapMarkers = products
+    .filter((product) => product.latitude != null && product.longitude != null)
+    .map((product) => ({
+      id: product.id,
+      latitude: product.latitude,
+      longitude: product.longitude,
+      title: product.title,
+    }));
+
+  const selectedProduct = products.find((product) => product.id === selectedProductId);
+
+  const activeFiltersCount = [minPrice, maxPrice, condition, postedWithinDays].filter(Boolean).length;
+
+  // Carrega a próxima página quando o final da lista fica visível
+  useEffect(() => {
+    const element = loadMoreRef.current;
+    if (!element || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  const filteredProducts = products?.filter(product =>
-    product.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    product.description.toLowerCase().includes(searchTerm.toLowerCase())
+  const renderProductCard = (product: ProductSearchResult) => (
+    <Card 
+      key={product.id}
+      className="cursor-pointer hover:scale-105 transition-transform shadow-none border-none overflow-hidden bg-transparent"
+      onClick={() => navigate(`/product/${product.id}`)}
+    >
+      <div className="aspect-square relative overflow-hidden rounded-lg">
+        <img
+          src={product.images[0] || "/placeholder.svg"}
+          alt={product.title}
+          className="object-cover w-full h-full hover:scale-110 transition-transform duration-300"
+        />
+        <div className="absolute top-2 right-2 bg-primary/80 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs">
+          {product.condition}
+        </div>
+        {product.distance !== undefined ? (
+          <div className="absolute top-2 left-2 bg-primary/80 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs">
+            {formatDistanceMeters(product.distance)}
+          </div>
+        ) : product.location_name && (
+          <div className="absolute top-2 left-2 bg-primary/80 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs">
+            {product.location_name}
+          </div>
+        )}
+      </div>
+      <CardContent className="p-3">
+        <div className="mb-1">
+          <span className="text-lg font-bold text-foreground">
+            R$ {product.price.toFixed(2)}
+          </span>
+        </div>
+        <h3 className="font-semibold truncate mb-1 text-foreground">
+          {product.title}
+        </h3>
+        <SellerRating
+          average={product.profiles?.rating_average}
+          count={product.profiles?.rating_count}
+        />
+        {product.location_name && (
+          <p className="text-sm truncate mt-1 text-foreground/60">
+            {product.location_name}
+          </p>
+        )}
+      </CardContent>
+    </Card>
   );
 
+  const handleClearFilters = () => {
+    setMinPrice("");
+    setMaxPrice("");
+    setCondition(null);
+    setPostedWithinDays(null);
+  };
+
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    setSearchTerm(search.search_term || "");
+    setSelectedCategory(search.category_id);
+    setCondition(search.condition);
+    setMinPrice(search.min_price?.toString() ?? "");
+    setMaxPrice(search.max_price?.toString() ?? "");
+    setPostedWithinDays(null);
+
+    const location = locations?.find((loc) => loc.id === search.location_id);
+    setSelectedLocation(location || null);
+    // Sem cidade, a origem salva é a localização do aparelho no momento da busca
+    setUserCoords(
+      !location && search.latitude != null && search.longitude != null
+        ? { latitude: search.latitude, longitude: search.longitude }
+        : null
+    );
+    if (search.radius_km) {
+      setRadiusValue([search.radius_km]);
+      setCustomRadius(search.radius_km.toString());
+    }
+  };
+
   const handleSaveLocation = () => {
-    if (selectedLocation) {
+    if (selectedLocation || userCoords) {
       setShowLocationDialog(false);
       toast({
         title: "Localização salva",
-        description: `Buscando produtos em um raio de ${radiusValue[0]}km de ${selectedLocation.name}`,
+        description: `Buscando produtos em um raio de ${radiusValue[0]}km de ${selectedLocation?.name || "você"}`,
+      });
+    }
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Localização indisponível",
+        description: "Seu navegador não suporta geolocalização",
+        variant: "destructive",
       });
+      return;
     }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setSelectedLocation(null);
+        setUserCoords({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+      },
+      (error) => {
+        console.error("Error getting current position:", error);
+        toast({
+          title: "Erro ao obter localização",
+          description: "Verifique se a permissão de localização está ativada",
+          variant: "destructive",
+        });
+      }
+    );
   };
 
   const handleCustomRadiusChange = (value: string) => {
@@ -172,6 +349,100 @@ const Products = () => {
                 ))}
               </DropdownMenuContent>
             </DropdownMenu>
+            <Dialog open={showFiltersDialog} onOpenChange={setShowFiltersDialog}>
+              <DialogTrigger asChild>
+                <Button
+                  variant={activeFiltersCount > 0 ? "default" : "outline"}
+                  size="icon"
+                  className="hover:scale-105 transition-transform rounded-full shadow-lg relative"
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                  {activeFiltersCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 flex items-center justify-center">
+                      {activeFiltersCount}
+                    </span>
+                  )}
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Filtros</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-6">
+                  <div className="space-y-2">
+                    <Label>Preço (R$)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={minPrice}
+                        onChange={(e) => setMinPrice(e.target.value)}
+                        placeholder="Mínimo"
+                      />
+                      <span className="text-muted-foreground">até</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={maxPrice}
+                        onChange={(e) => setMaxPrice(e.target.value)}
+                        placeholder="Máximo"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Condição</Label>
+                    <Select
+                      value={condition ?? "all"}
+                      onValueChange={(value) => setCondition(value === "all" ? null : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Qualquer condição" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Qualquer condição</SelectItem>
+                        <SelectItem value="novo">Novo</SelectItem>
+                        <SelectItem value="usado">Usado</SelectItem>
+                        <SelectItem value="recondicionado">Recondicionado</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Data do anúncio</Label>
+                    <Select
+                      value={postedWithinDays?.toString() ?? "all"}
+                      onValueChange={(value) => setPostedWithinDays(value === "all" ? null : parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Qualquer data" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Qualquer data</SelectItem>
+                        <SelectItem value="1">Últimas 24 horas</SelectItem>
+                        <SelectItem value="7">Últimos 7 dias</SelectItem>
+                        <SelectItem value="30">Últimos 30 dias</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1" onClick={handleClearFilters}>
+                      Limpar filtros
+                    </Button>
+                    <Button className="flex-1" onClick={() => setShowFiltersDialog(false)}>
+                      Aplicar
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+            <SavedSearchesDialog
+              currentSearch={currentSearch}
+              suggestedName={suggestedSearchName}
+              onApply={handleApplySavedSearch}
+            />
+            <ViewModeToggle value={viewMode} onChange={setViewMode} />
           </div>
         </div>
 
@@ -180,7 +451,7 @@ const Products = () => {
           <Dialog open={showLocationDialog} onOpenChange={setShowLocationDialog}>
             <DialogTrigger asChild>
               <Button variant="ghost" className="text-primary flex items-center gap-2">
-                <span>{selectedLocation?.name || 'Selecionar localização'}</span>
+                <span>{selectedLocation?.name || (userCoords ? 'Minha localização' : 'Selecionar localização')}</span>
                 <ChevronDown className="h-4 w-4" />
               </Button>
             </DialogTrigger>
@@ -191,11 +462,21 @@ const Products = () => {
               <div className="space-y-6">
                 <div className="space-y-2">
                   <Label>Localização</Label>
+                  <Button
+                    type="button"
+                    variant={userCoords ? "default" : "outline"}
+                    className="w-full flex items-center gap-2"
+                    onClick={handleUseMyLocation}
+                  >
+                    <LocateFixed className="h-4 w-4" />
+                    Usar minha localização
+                  </Button>
                   <RadioGroup 
-                    value={selectedLocation?.id} 
+                    value={selectedLocation?.id ?? ""} 
                     onValueChange={(value) => {
                       const location = locations?.find(loc => loc.id === value);
                       setSelectedLocation(location || null);
+                      setUserCoords(null);
                     }}
                   >
                     {locations?.map((location) => (
@@ -252,48 +533,37 @@ const Products = () => {
               </Card>
             ))}
           </div>
+        ) : viewMode === "map" ? (
+          <div className="space-y-6">
+            <MapView
+              markers={mapMarkers}
+              selectedId={selectedProductId}
+              onSelect={setSelectedProductId}
+            />
+            {selectedProduct ? (
+              <div className="max-w-xs mx-auto">{renderProductCard(selectedProduct)}</div>
+            ) : (
+              <p className="text-muted-foreground text-center">
+                Toque em um produto no mapa para ver os detalhes.
+              </p>
+            )}
+          </div>
         ) : (
           <div className="grid grid-cols-2 gap-2 md:grid-cols-3 lg:grid-cols-4">
-            {filteredProducts?.map((product) => (
-              <Card 
-                key={product.id}
-                className="cursor-pointer hover:scale-105 transition-transform shadow-none border-none overflow-hidden bg-transparent"
-                onClick={() => navigate(`/product/${product.id}`)}
-              >
-                <div className="aspect-square relative overflow-hidden rounded-lg">
-                  <img
-                    src={product.images[0] || "/placeholder.svg"}
-                    alt={product.title}
-                    className="object-cover w-full h-full hover:scale-110 transition-transform duration-300"
-                  />
-                  <div className="absolute top-2 right-2 bg-primary/80 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs">
-                    {product.condition}
-                  </div>
-                  {product.location_name && (
-                    <div className="absolute top-2 left-2 bg-primary/80 backdrop-blur-sm text-white px-2 py-1 rounded-full text-xs">
-                      {product.location_name}
-                    </div>
-                  )}
-                </div>
-                <CardContent className="p-3">
-                  <div className="mb-1">
-                    <span className="text-lg font-bold text-foreground">
-                      R$ {product.price.toFixed(2)}
-                    </span>
-                  </div>
-                  <h3 className="font-semibold truncate mb-1 text-foreground">
-                    {product.title}
-                  </h3>
-                  {product.location_name && (
-                    <p className="text-sm truncate mt-1 text-foreground/60">
-                      {product.location_name}
-                    </p>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
+            {products.map((product) => renderProductCard(product))}
           </div>
         )}
+
+        {!isLoading && products.length === 0 && (
+          <div className="text-center py-12 text-muted-foreground">
+            Nenhum produto encontrado
+          </div>
+        )}
+
+        <div ref={loadMoreRef} className="h-10" />
+        {isFetchingNextPage && (
+          <p className="text-center text-sm text-muted-foreground">Carregando mais produtos...</p>
+        )}
       </div>
 
       <BottomNav />
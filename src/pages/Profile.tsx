@@ -16,7 +16,9 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import MediaUploader from "@/components/MediaUploader";
 import type { Profile } from "@/types/profile";
+import { signOut } from "@/utils/pushNotifications";
 
 const defaultAvatarImage = "/placeholder.svg";
 const defaultCoverImage = "/placeholder.svg";
@@ -90,6 +92,18 @@ export default function Profile() {
     });
   };
 
+  // O redirecionamento após sair fica a cargo do AuthWrapper
+  const handleSignOut = async () => {
+    const { error } = await signOut();
+    if (error) {
+      toast({
+        title: "Erro ao sair",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     if (profile) {
       form.reset(profile);
@@ -162,6 +176,20 @@ export default function Profile() {
               >
                 Editar Perfil
               </Button>
+              <Button
+                onClick={() => navigate("/salvos")}
+                className="w-full"
+                variant="outline"
+              >
+                Salvos
+              </Button>
+              <Button
+                onClick={handleSignOut}
+                className="w-full text-destructive hover:text-destructive"
+                variant="outline"
+              >
+                Sair
+              </Button>
             </div>
           </div>
 
@@ -208,20 +236,34 @@ export default function Profile() {
           <div className="space-y-6 py-4">
             <div className="space-y-2">
               <h3 className="text-lg font-medium">Foto de Perfil</h3>
-              <Input 
-                placeholder="Cole o link do Dropbox para a foto de perfil"
-                defaultValue={profile?.avatar_url || ''}
-                onChange={(e) => form.setValue("avatar_url", e.target.value)}
-                className="w-full"
+              {form.watch("avatar_url") && (
+                <img
+                  src={form.watch("avatar_url")}
+                  alt="Nova foto de perfil"
+                  className="w-20 h-20 rounded-full object-cover"
+                />
+              )}
+              <MediaUploader
+                bucket="avatars"
+                folder="avatar"
+                label="Enviar foto de perfil"
+                onUploaded={([url]) => form.setValue("avatar_url", url)}
               />
             </div>
             <div className="space-y-2">
               <h3 className="text-lg font-medium">Foto de Capa</h3>
-              <Input 
-                placeholder="Cole o link do Dropbox para a foto de capa"
-                defaultValue={profile?.cover_url || ''}
-                onChange={(e) => form.setValue("cover_url", e.target.value)}
-                className="w-full"
+              {form.watch("cover_url") && (
+                <img
+                  src={form.watch("cover_url")}
+                  alt="Nova foto de capa"
+                  className="w-full h-20 rounded-md object-cover"
+                />
+              )}
+              <MediaUploader
+                bucket="avatars"
+                folder="cover"
+                label="Enviar foto de capa"
+                onUploaded={([url]) => form.setValue("cover_url", url)}
               />
             </div>
             <div className="space-y-2">
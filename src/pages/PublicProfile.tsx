@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowLeft, CalendarDays, MapPin } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+import ReportButton from "@/components/ReportButton";
+import SellerRating from "@/components/SellerRating";
+import SellerReviews from "@/components/SellerReviews";
+import type { Product } from "@/types/products";
+
+// Apenas campos públicos; e-mail, telefone e endereço nunca saem do perfil privado
+const PUBLIC_PROFILE_FIELDS =
+  "id, username, full_name, avatar_url, cover_url, bio, city, created_at, rating_average, rating_count, is_blocked";
+
+const PublicProfile = () => {
+  const { username } = useParams();
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ["public-profile", username],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(PUBLIC_PROFILE_FIELDS)
+        .eq("username", username!)
+        .maybeSingle();
+
+      if (error) throw error;
+      // Usuários bloqueados pela moderação não têm página pública
+      return data && !data.is_blocked ? data : null;
+    },
+    enabled: !!username,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ["public-profile-products", profile?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*")
+        .eq("user_id", profile!.id)
+        .eq("status", "active")
+        .gt("expires_at", new Date().toISOString())
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as Product[];
+    },
+    enabled: !!profile,
+  });
+
+  const displayName = profile?.full_name || `@${profile?.username}`;
+
+  useEffect(() => {
+    if (profile) {
+      document.title = `${displayName} | Vale Notícias`;
+    }
+  }, [profile, displayName]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 animate-pulse space-y-4">
+          <div className="h-40 bg-gray-200 rounded-lg" />
+          <div className="h-24 w-24 bg-gray-200 rounded-full" />
+          <div className="h-4 bg-gray-200 rounded w-1/3" />
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+        <Navbar />
+        <SubNav />
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Perfil não encontrado</h1>
+          <Link to="/products" className="text-primary hover:underline">
+            Voltar para os produtos
+          </Link>
+        </div>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+      <Navbar />
+      <SubNav />
+      <main className="flex-1">
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                to="/products"
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Voltar</span>
+              </Link>
+              <ReportButton targetType="profile" targetId={profile.id} label="Denunciar" className="text-muted-foreground" />
+            </div>
+
+            <div className="rounded-xl overflow-hidden border border-border bg-card">
+              <div className="h-40 bg-muted">
+                {profile.cover_url && (
+                  <img src={profile.cover_url} alt="Capa" className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="px-4 pb-4">
+                <div className="-mt-12 w-24 h-24 rounded-full overflow-hidden border-4 border-card bg-muted">
+                  {profile.avatar_url ? (
+                    <img src={profile.avatar_url} alt={displayName} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full bg-primary/10 flex items-center justify-center text-primary text-3xl font-semibold">
+                      {displayName[0]?.toUpperCase()}
+                    </div>
+                  )}
+                </div>
+                <div className="mt-3 space-y-2">
+                  <div>
+                    <h1 className="text-2xl font-bold leading-tight">{displayName}</h1>
+                    {profile.full_name && profile.username && (
+                      <p className="text-muted-foreground">@{profile.username}</p>
+                    )}
+                  </div>
+                  <SellerRating average={profile.rating_average} count={profile.rating_count} />
+                  {profile.bio && <p className="whitespace-pre-line">{profile.bio}</p>}
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    {profile.city && (
+                      <span className="inline-flex items-center gap-1">
+                        <MapPin className="h-4 w-4" />
+                        {profile.city}
+                      </span>
+                    )}
+                    {profile.created_at && (
+                      <span className="inline-flex items-center gap-1">
+                        <CalendarDays className="h-4 w-4" />
+                        Membro desde {format(new Date(profile.created_at), "MMMM 'de' yyyy", { locale: ptBR })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <section className="space-y-4">
+              <h2 className="text-xl font-semibold">
+                Anúncios ativos <span className="text-muted-foreground text-base">({products.length})</span>
+              </h2>
+              {products.length === 0 ? (
+                <p className="text-muted-foreground">Nenhum anúncio ativo no momento.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+                  {products.map((product) => (
+                    <Link key={product.id} to={`/product/${product.id}`}>
+                      <Card className="overflow-hidden hover:shadow-lg transition-shadow h-full">
+                        <div className="aspect-square overflow-hidden">
+                          <img
+                            src={product.images?.[0] || "/placeholder.svg"}
+                            alt={product.title}
+                            loading="lazy"
+                            className="object-cover w-full h-full"
+                          />
+                        </div>
+                        <CardContent className="p-3">
+                          <p className="text-lg font-bold">R$ {product.price.toFixed(2)}</p>
+                          <h3 className="font-semibold truncate">{product.title}</h3>
+                        </CardContent>
+                      </Card>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <SellerReviews
+              sellerId={profile.id}
+              ratingAverage={profile.rating_average}
+              ratingCount={profile.rating_count}
+            />
+          </div>
+        </div>
+      </main>
+      <BottomNav />
+    </div>
+  );
+};
+
+export default PublicProfile;
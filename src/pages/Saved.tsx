@@ -0,0 +1,175 @@
+
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Heart } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSessionUserId } from "@/hooks/useSessionUser";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import NewsCard from "@/components/NewsCard";
+import EventCard from "@/components/EventCard";
+import { PlaceCard } from "@/components/PlaceCard";
+import FavoriteButton from "@/components/FavoriteButton";
+import Navbar from "@/components/Navbar";
+import SubNav from "@/components/SubNav";
+import BottomNav from "@/components/BottomNav";
+
+const Saved = () => {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    document.title = "Salvos | Vale Notícias";
+  }, []);
+
+  const { data: userId, isLoading: isLoadingUser } = useSessionUserId();
+
+  const { data: saved, isLoading: isLoadingSaved } = useQuery({
+    queryKey: ["saved-items", userId],
+    queryFn: async () => {
+      if (!userId) return null;
+
+      const { data, error } = await supabase
+        .from("favorites")
+        .select(`
+          id,
+          created_at,
+          news (*, categories (name, slug, background_color)),
+          events (*),
+          places (*, categories (name, background_color)),
+          products (*)
+        `)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching saved items:", error);
+        throw error;
+      }
+
+      // Itens excluídos somem do join, então filtramos os vazios
+      return {
+        news: data.map((favorite) => favorite.news).filter(Boolean),
+        events: data.map((favorite) => favorite.events).filter(Boolean),
+        places: data.map((favorite) => favorite.places).filter(Boolean),
+        products: data.map((favorite) => favorite.products).filter(Boolean),
+      };
+    },
+    enabled: userId !== undefined,
+  });
+  const isLoading = isLoadingUser || isLoadingSaved;
+
+  const renderSection = (title: string, count: number, children: React.ReactNode) =>
+    count > 0 && (
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">
+          {title} <span className="text-muted-foreground text-base">({count})</span>
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">{children}</div>
+      </section>
+    );
+
+  const totalSaved = saved
+    ? saved.news.length + saved.events.length + saved.places.length + saved.products.length
+    : 0;
+
+  return (
+    <div className="min-h-screen flex flex-col pb-[72px] md:pb-0">
+      <Navbar />
+      <SubNav />
+      <main className="flex-1 container mx-auto px-4 py-8 space-y-10">
+        <h1 className="text-2xl font-bold">Salvos</h1>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="h-48 bg-gray-200 rounded-lg mb-4"></div>
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-2"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              </div>
+            ))}
+          </div>
+        ) : saved === null ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-muted-foreground">Faça login para ver os itens que você salvou.</p>
+            <Button onClick={() => navigate("/login")}>Entrar</Button>
+          </div>
+        ) : totalSaved === 0 ? (
+          <div className="text-center py-12 space-y-2 text-muted-foreground">
+            <Heart className="h-10 w-10 mx-auto" />
+            <p>Você ainda não salvou nada.</p>
+            <p className="text-sm">Toque no coração em notícias, eventos, lugares e produtos para encontrá-los aqui.</p>
+          </div>
+        ) : (
+          <>
+            {renderSection("Notícias", saved.news.length, saved.news.map((item) => (
+              <NewsCard
+                key={item.id}
+                id={item.id}
+                title={item.title}
+                content={item.content}
+                date={item.date}
+                createdAt={item.created_at}
+                images={item.images || []}
+                video_urls={item.video_urls || []}
+                category={item.categories}
+              />
+            )))}
+
+            {renderSection("Eventos", saved.events.length, saved.events.map((event) => (
+              <EventCard
+                key={event.id}
+                id={event.id}
+                title={event.title}
+                description={event.description}
+                eventDate={event.event_date}
+                eventTime={event.event_time}
+                endTime={event.end_time}
+                recurrence={event.recurrence}
+                image={event.file_path || event.image}
+                images={event.images || []}
+                location={event.location}
+                mapsUrl={event.url_maps_events}
+                entranceFee={event.entrance_fee}
+                createdAt={event.created_at}
+                buttonColor={event.button_color}
+                buttonSecondaryColor={event.button_secondary_color}
+                video_urls={event.video_urls}
+              />
+            )))}
+
+            {renderSection("Lugares", saved.places.length, saved.places.map((place) => (
+              <PlaceCard key={place.id} place={place} />
+            )))}
+
+            {renderSection("Produtos", saved.products.length, saved.products.map((product) => (
+              <Link key={product.id} to={`/product/${product.id}`}>
+                <Card className="overflow-hidden hover:shadow-lg transition-shadow">
+                  <div className="aspect-square relative overflow-hidden">
+                    <img
+                      src={product.images?.[0] || "/placeholder.svg"}
+                      alt={product.title}
+                      loading="lazy"
+                      className="object-cover w-full h-full"
+                    />
+                  </div>
+                  <CardContent className="p-4 flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{product.title}</h3>
+                      <p className="text-lg font-bold">R$ {product.price.toFixed(2)}</p>
+                    </div>
+                    <FavoriteButton type="product" itemId={product.id} />
+                  </CardContent>
+                </Card>
+              </Link>
+            )))}
+          </>
+        )}
+      </main>
+      <BottomNav />
+    </div>
+  );
+};
+
+export default Saved;
@@ -1,16 +1,26 @@
 
 import { useEffect, useState } from "react";
-import { Pencil, Trash2 } from "lucide-react";
+import { Pencil, RefreshCw, Trash2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import Navbar from "@/components/Navbar";
 import SubNav from "@/components/SubNav";
 import BottomNav from "@/components/BottomNav";
-import type { ProductWithDistance } from "@/types/products";
+import type { ProductStatus, ProductWithDistance } from "@/types/products";
+import {
+  PRODUCT_STATUS_LABELS,
+  RENEWABLE_STATUSES,
+  RENEWAL_WINDOW_DAYS,
+  SELLER_SELECTABLE_STATUSES,
+  getDaysUntilExpiration,
+  getEffectiveProductStatus,
+} from "@/utils/productStatus";
 
 const UserProducts = () => {
   const navigate = useNavigate();
@@ -36,6 +46,7 @@ const UserProducts = () => {
       if (error) throw error;
       setMyProducts(products?.map(product => ({
         ...product,
+        status: product.status as ProductStatus,
         distance: 0 // Adicionando a propriedade distance requerida
       })) || []);
     } catch (error) {
@@ -57,11 +68,13 @@ const UserProducts = () => {
           product_id,
           products (*)
         `)
-        .eq('user_id', (await supabase.auth.getUser()).data.user?.id);
+        .eq('user_id', (await supabase.auth.getUser()).data.user?.id)
+        .not('product_id', 'is', null);
 
       if (error) throw error;
       setFavoriteProducts(favorites?.map(f => ({
         ...f.products,
+        status: f.products.status as ProductStatus,
         distance: 0 // Adicionando a propriedade distance requerida
       })) || []);
     } catch (error) {
@@ -96,51 +109,167 @@ const UserProducts = () => {
     }
   };
 
-  const renderProductCard = (product: ProductWithDistance, showActions = false) => (
-    <Card 
-      key={product.id}
-      className="cursor-pointer hover:shadow-lg transition-shadow"
-      onClick={() => !showActions && navigate(`/product/${product.id}`)}
-    >
-      <div className="aspect-square relative overflow-hidden">
-        <img
-          src={product.images[0] || "/placeholder.svg"}
-          alt={product.title}
-          className="object-cover w-full h-full"
-        />
-      </div>
-      <CardContent className="p-4">
-        <h3 className="font-semibold truncate">{product.title}</h3>
-        <p className="text-lg font-bold">
-          R$ {product.price.toFixed(2)}
-        </p>
-        {showActions && (
-          <div className="flex gap-2 mt-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={(e) => {
-                e.stopPropagation();
-                navigate(`/products/new?edit=${product.id}`);
-              }}
-            >
-              <Pencil className="h-4 w-4" />
-            </Button>
+  const handleStatusChange = async (productId: string, status: ProductStatus) => {
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({ status })
+        .eq('id', productId);
+
+      if (error) throw error;
+
+      setMyProducts(products => products.map(p => p.id === productId ? { ...p, status } : p));
+      toast({
+        title: "Status atualizado",
+        description: `Anúncio marcado como ${PRODUCT_STATUS_LABELS[status].toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao atualizar",
+        description: "Não foi possível alterar o status do anúncio",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRenewProduct = async (productId: string) => {
+    try {
+      const { data: expiresAt, error } = await supabase.rpc('renew_product', {
+        product_id_param: productId,
+      });
+
+      if (error) throw error;
+
+      setMyProducts(products => products.map(p =>
+        p.id === productId ? { ...p, status: "active", expires_at: expiresAt } : p
+      ));
+      toast({
+        title: "Anúncio renovado",
+        description: "Seu anúncio voltou a aparecer nas buscas",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao renovar",
+        description: "Não foi possível renovar o anúncio",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderExpiration = (product: ProductWithDistance) => {
+    const status = getEffectiveProductStatus(product);
+    const daysLeft = getDaysUntilExpiration(product);
+
+    if (status === "expired") {
+      return <p className="text-xs text-destructive">Expirado, não aparece nas buscas</p>;
+    }
+    if (status !== "active" || daysLeft === null) return null;
+
+    return (
+      <p className="text-xs text-muted-foreground">
+        {daysLeft <= 0 ? "Expira hoje" : `Expira em ${daysLeft} ${daysLeft === 1 ? "dia" : "dias"}`}
+      </p>
+    );
+  };
+
+  const renderProductCard = (product: ProductWithDistance, showActions = false) => {
+    const status = getEffectiveProductStatus(product);
+    const daysLeft = getDaysUntilExpiration(product);
+    const canRenew = RENEWABLE_STATUSES.includes(status)
+      && (status === "expired" || (daysLeft !== null && daysLeft <= RENEWAL_WINDOW_DAYS));
+
+    return (
+      <Card 
+        key={product.id}
+        className="cursor-pointer hover:shadow-lg transition-shadow"
+        onClick={() => !showActions && navigate(`/product/${product.id}`)}
+      >
+        <div className="aspect-square relative overflow-hidden">
+          <img
+            src={product.images[0] || "/placeholder.svg"}
+            alt={product.title}
+            className="object-cover w-full h-full"
+          />
+          {status !== "active" && (
+            <Badge variant={status === "expired" ? "destructive" : "secondary"} className="absolute top-2 left-2">
+              {PRODUCT_STATUS_LABELS[status]}
+            </Badge>
+          )}
+          {product.is_hidden && (
+            <Badge variant="destructive" className="absolute top-2 right-2">
+              Oculto pela moderação
+            </Badge>
+          )}
+        </div>
+        <CardContent className="p-4">
+          <h3 className="font-semibold truncate">{product.title}</h3>
+          <p className="text-lg font-bold">
+            R$ {product.price.toFixed(2)}
+          </p>
+          {showActions && renderExpiration(product)}
+          {showActions && (
+            <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+              <Select
+                value={status === "expired" ? undefined : status}
+                onValueChange={(value) => handleStatusChange(product.id, value as ProductStatus)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder={PRODUCT_STATUS_LABELS.expired} />
+                </SelectTrigger>
+                <SelectContent>
+                  {SELLER_SELECTABLE_STATUSES
+                    .filter((option) => status !== "expired" || option !== "active")
+                    .map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {PRODUCT_STATUS_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {showActions && canRenew && (
             <Button
-              variant="destructive"
+              variant="secondary"
               size="sm"
+              className="w-full mt-2"
               onClick={(e) => {
                 e.stopPropagation();
-                handleDeleteProduct(product.id);
+                handleRenewProduct(product.id);
               }}
             >
-              <Trash2 className="h-4 w-4" />
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Renovar
             </Button>
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
+          )}
+          {showActions && (
+            <div className="flex gap-2 mt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  navigate(`/products/${product.id}/edit`);
+                }}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteProduct(product.id);
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
 
   return (
     <>
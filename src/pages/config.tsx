@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs"
 import { updateMetaTags } from "../utils/updateMetaTags";
 import Navbar2 from "../components/Navbar2";
 import SubNav2 from "../components/SubNav2";
+import MediaUploader from "../components/MediaUploader";
 
 type SiteConfig = Database['public']['Tables']['site_configuration']['Row'];
 
@@ -82,7 +83,9 @@ const Admin = () => {
     admin_text_color: "#FFFFFF",
     favorite_heart_color: "#ea384c",
     buy_button_color: "#9b87f5",
-    buy_button_text: "Comprar agora"
+    buy_button_text: "Comprar agora",
+    product_expiration_days: 30,
+    vapid_public_key: null
   });
 
   useEffect(() => {
@@ -233,20 +236,20 @@ const Admin = () => {
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    <Label htmlFor="logo_image">Link da Imagem da Logo</Label>
-                    <Input
-                      id="logo_image"
-                      value={config.navbar_logo_image || ""}
-                      onChange={(e) => setConfig({ ...config, navbar_logo_image: e.target.value })}
-                      placeholder="Cole o link compartilhado do Dropbox aqui"
-                    />
-                    <p className="text-sm text-gray-500">
-                      Para usar uma imagem do Dropbox:
-                      1. Faça upload da imagem no Dropbox
-                      2. Clique em "Compartilhar"
-                      3. Copie o link compartilhado
-                      4. Substitua "?dl=0" por "?raw=1" no final do link
-                    </p>
+                    <Label>Imagem da Logo</Label>
+                    {config.navbar_logo_image && (
+                      <img
+                        src={config.navbar_logo_image}
+                        alt="Logo"
+                        className="h-12 object-contain"
+                      />
+                    )}
+                    <MediaUploader
+                      bucket="site-assets"
+                      folder="logo"
+                      label="Enviar logo"
+                      onUploaded={([url]) => setConfig((current) => ({ ...current, navbar_logo_image: url }))}
+                    />
                   </div>
                 )}
               </div>
@@ -689,20 +692,30 @@ const Admin = () => {
                         className="w-16 h-16 rounded-xl object-cover"
                       />
                     )}
-                    <Input
-                      id="pwa_app_icon"
-                      value={config.pwa_app_icon || ""}
-                      onChange={(e) => setConfig({ ...config, pwa_app_icon: e.target.value })}
-                      placeholder="Link para o ícone (512x512px, formato PNG)"
-                      className="flex-1"
+                    <MediaUploader
+                      bucket="site-assets"
+                      folder="pwa"
+                      accept="image/png"
+                      optimize={false}
+                      label="Enviar ícone"
+                      onUploaded={([url]) => setConfig((current) => ({ ...current, pwa_app_icon: url }))}
                     />
                   </div>
                   <p className="text-sm text-gray-500 mt-1">
-                    Recomendado: Imagem PNG 512x512px. Para usar uma imagem do Dropbox:
-                    1. Faça upload da imagem
-                    2. Clique em "Compartilhar"
-                    3. Copie o link
-                    4. Substitua "?dl=0" por "?raw=1" no final do link
+                    Recomendado: Imagem PNG 512x512px.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="vapid_public_key">Chave Pública VAPID</Label>
+                  <Input
+                    id="vapid_public_key"
+                    value={config.vapid_public_key || ""}
+                    onChange={(e) => setConfig({ ...config, vapid_public_key: e.target.value.trim() || null })}
+                    placeholder="Chave pública para notificações push"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Deve ser o mesmo par da VAPID_PRIVATE_KEY da função send-push. Sem chave, o push fica desativado.
                   </p>
                 </div>
 
@@ -831,6 +844,20 @@ const Admin = () => {
                   />
                 </div>
 
+                <div>
+                  <Label htmlFor="product_expiration_days">Validade dos Anúncios (dias)</Label>
+                  <Input
+                    id="product_expiration_days"
+                    type="number"
+                    min={1}
+                    value={config.product_expiration_days || 30}
+                    onChange={(e) => handleChange("product_expiration_days", Math.max(1, Number(e.target.value) || 1))}
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    Após esse prazo o anúncio sai das buscas até ser renovado pelo vendedor.
+                  </p>
+                </div>
+
                 <div className="col-span-2">
                   <Label htmlFor="whatsapp_message">Mensagem do WhatsApp</Label>
                   <Textarea
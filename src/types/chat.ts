@@ -30,3 +30,7 @@ export interface ChatParticipant {
     last_seen?: string;
   };
 }
+
+export interface ChatWithUnread extends Chat {
+  unread_count: number;
+}
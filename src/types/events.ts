@@ -0,0 +1,16 @@
+export type RecurrenceFrequency = "weekly" | "monthly";
+
+// Regra salva em events.recurrence; a data do evento é a primeira ocorrência
+export interface EventRecurrence {
+  frequency: RecurrenceFrequency;
+  // A cada N semanas/meses
+  interval: number;
+  // Semanal: dias da semana (0 = domingo)
+  weekdays?: number[];
+  // Mensal: semana do mês (1 a 4, ou -1 para a última) e dia da semana
+  week_of_month?: number;
+  weekday?: number;
+  until?: string | null;
+  // Datas canceladas ("yyyy-MM-dd")
+  exceptions: string[];
+}
@@ -3,5 +3,7 @@ export interface Location {
   id: string;
   name: string;
   state: string;
+  latitude?: number | null;
+  longitude?: number | null;
   created_at: string;
 }
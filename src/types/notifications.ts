@@ -1,9 +1,10 @@
+export type NotificationType = 'news' | 'event' | 'product' | 'moderation';
 
 export interface Notification {
   id: string;
   title: string;
   message: string;
-  type: 'news' | 'event' | 'system';
+  type: NotificationType;
   reference_id?: string;
   read: boolean;
   created_at: string;
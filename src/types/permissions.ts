@@ -0,0 +1,7 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type PermissionType = Database["public"]["Enums"]["permission_type"];
+
+export type UserPermission = Database["public"]["Tables"]["user_permissions"]["Row"];
+
+export type AdminSection = "noticias" | "eventos" | "lugares" | "categorias" | "denuncias" | "sistema";
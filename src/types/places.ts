@@ -11,3 +11,29 @@ export interface PlaceWithCategory extends Place {
 }
 
 export type PlaceFormData = Omit<Place, "id" | "created_at">;
+
+// Intervalo de funcionamento no formato "HH:mm" (fechamento menor que a abertura atravessa a meia-noite)
+export interface OpeningPeriod {
+  open: string;
+  close: string;
+}
+
+export interface OpeningHoursDay {
+  closed: boolean;
+  periods: OpeningPeriod[];
+}
+
+// Feriados e datas especiais ("yyyy-MM-dd") que substituem o horário semanal
+export interface OpeningHoursException {
+  date: string;
+  label?: string;
+  closed: boolean;
+  periods: OpeningPeriod[];
+}
+
+export interface OpeningHours {
+  // Índice 0 = domingo, como em Date.getDay()
+  weekly: OpeningHoursDay[];
+  exceptions: OpeningHoursException[];
+  note?: string;
+}
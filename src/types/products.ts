@@ -1,4 +1,6 @@
 
+export type ProductStatus = "active" | "reserved" | "sold" | "paused" | "expired";
+
 export interface Product {
   id: string;
   title: string;
@@ -13,11 +15,18 @@ export interface Product {
   images: string[];
   video_urls?: string[];
   whatsapp?: string;
+  status?: ProductStatus;
+  expires_at?: string | null;
+  // Ocultado pela moderação após denúncias; só o dono e administradores veem
+  is_hidden?: boolean;
   created_at?: string;
   updated_at?: string;
   profiles?: {
+    username?: string | null;
     full_name: string | null;
     avatar_url: string | null;
+    rating_average?: number | null;
+    rating_count?: number;
   };
 }
 
@@ -36,3 +45,15 @@ export interface ProductFormData {
   location_name?: string;
   whatsapp?: string;
 }
+
+export interface ProductSearchFilters {
+  searchTerm?: string;
+  categoryId?: string | null;
+  locationId?: string | null;
+  condition?: string | null;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  postedWithinDays?: number | null;
+  origin?: { latitude: number; longitude: number } | null;
+  radiusKm?: number;
+}
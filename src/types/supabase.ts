@@ -80,6 +80,8 @@ export type Database = {
           favorite_heart_color: string;
           buy_button_color: string;
           buy_button_text: string;
+          product_expiration_days: number;
+          vapid_public_key: string | null;
         }
       }
     }
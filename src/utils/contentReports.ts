@@ -0,0 +1,52 @@
+export type ReportTargetType = "product" | "profile" | "event" | "place";
+export type ReportReason = "scam" | "abuse" | "wrong_info" | "spam" | "inappropriate" | "other";
+export type ReportStatus = "pending" | "resolved" | "dismissed";
+export type ModerationAction = "hide" | "warn" | "block" | "dismiss";
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  product: "Anúncio",
+  profile: "Perfil",
+  event: "Evento",
+  place: "Lugar",
+};
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  scam: "Golpe ou fraude",
+  abuse: "Assédio ou conteúdo ofensivo",
+  wrong_info: "Informação errada ou desatualizada",
+  spam: "Spam ou propaganda enganosa",
+  inappropriate: "Conteúdo impróprio",
+  other: "Outro motivo",
+};
+
+// Motivos oferecidos para cada tipo de conteúdo, na ordem exibida
+export const REPORT_REASONS_BY_TARGET: Record<ReportTargetType, ReportReason[]> = {
+  product: ["scam", "spam", "inappropriate", "wrong_info", "other"],
+  profile: ["scam", "abuse", "spam", "inappropriate", "other"],
+  event: ["wrong_info", "spam", "inappropriate", "other"],
+  place: ["wrong_info", "spam", "inappropriate", "other"],
+};
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  hide: "Ocultar conteúdo",
+  warn: "Advertir usuário",
+  block: "Bloquear usuário",
+  dismiss: "Descartar denúncia",
+};
+
+// Perfis não têm o que ocultar; o bloqueio já tira o usuário da plataforma
+export const getModerationActions = (targetType: ReportTargetType): ModerationAction[] =>
+  targetType === "profile" ? ["warn", "block", "dismiss"] : ["hide", "warn", "block", "dismiss"];
+
+export const getReportTargetPath = (targetType: ReportTargetType, targetId: string) => {
+  switch (targetType) {
+    case "product":
+      return `/product/${targetId}`;
+    case "event":
+      return `/eventos/${targetId}`;
+    case "place":
+      return `/lugares/${targetId}`;
+    case "profile":
+      return null;
+  }
+};
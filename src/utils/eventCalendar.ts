@@ -0,0 +1,48 @@
+import { SUPABASE_URL } from "@/integrations/supabase/client";
+
+const CALENDAR_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/events-calendar`;
+
+// Arquivo .ics de um único evento
+export const getEventIcsUrl = (eventId: string) =>
+  `${CALENDAR_FUNCTION_URL}?event_id=${encodeURIComponent(eventId)}`;
+
+// Feed assinável com os próximos eventos (de uma categoria ou de todas)
+export const getEventsFeedUrl = (categoryId?: string | null) =>
+  categoryId
+    ? `${CALENDAR_FUNCTION_URL}?category_id=${encodeURIComponent(categoryId)}`
+    : CALENDAR_FUNCTION_URL;
+
+// Aplicativos de calendário abrem links webcal:// como assinatura
+export const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, "webcal://");
+
+interface GoogleCalendarEvent {
+  title: string;
+  description?: string | null;
+  event_date: string;
+  event_time: string;
+  end_time: string;
+  location?: string | null;
+}
+
+const toCalendarDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, "")}T${time.slice(0, 5).replace(":", "")}00`;
+
+export const getGoogleCalendarUrl = (event: GoogleCalendarEvent) => {
+  let endDate = event.event_date;
+  if (event.end_time.slice(0, 5) <= event.event_time.slice(0, 5)) {
+    const next = new Date(`${event.event_date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    endDate = next.toISOString().slice(0, 10);
+  }
+
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates: `${toCalendarDateTime(event.event_date, event.event_time)}/${toCalendarDateTime(endDate, event.end_time)}`,
+    ctz: "America/Sao_Paulo",
+  });
+  if (event.description) params.set("details", event.description);
+  if (event.location) params.set("location", event.location);
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
@@ -0,0 +1,167 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarWeeks,
+  format,
+  lastDayOfMonth,
+  parseISO,
+  startOfMonth,
+} from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import type { EventRecurrence } from "@/types/events";
+
+const WEEKDAY_NAMES = ["domingo", "segunda", "terça", "quarta", "quinta", "sexta", "sábado"];
+
+// Limite de segurança para a busca da próxima ocorrência
+const MAX_LOOKAHEAD_DAYS = 800;
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const parseRecurrence = (value: Json | null | undefined): EventRecurrence | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const raw = value as unknown as Partial<EventRecurrence>;
+  if (raw.frequency !== "weekly" && raw.frequency !== "monthly") return null;
+
+  return {
+    frequency: raw.frequency,
+    interval: Math.max(1, Number(raw.interval) || 1),
+    weekdays: raw.weekdays,
+    week_of_month: raw.week_of_month,
+    weekday: raw.weekday,
+    until: raw.until || null,
+    exceptions: raw.exceptions || [],
+  };
+};
+
+// Regra padrão a partir da data do evento: toda semana no mesmo dia, ou todo mês na mesma semana
+export const createDefaultRecurrence = (eventDate: string, frequency: EventRecurrence["frequency"]): EventRecurrence => {
+  const date = parseISO(eventDate);
+  const weekOfMonth = Math.ceil(date.getDate() / 7);
+
+  return frequency === "weekly"
+    ? { frequency, interval: 1, weekdays: [date.getDay()], until: null, exceptions: [] }
+    : {
+        frequency,
+        interval: 1,
+        week_of_month: weekOfMonth > 4 ? -1 : weekOfMonth,
+        weekday: date.getDay(),
+        until: null,
+        exceptions: [],
+      };
+};
+
+// N-ésimo dia da semana do mês (ou o último, com week = -1)
+const getNthWeekdayOfMonth = (month: Date, weekday: number, week: number) => {
+  if (week === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+
+  const first = startOfMonth(month);
+  const date = addDays(first, (weekday - first.getDay() + 7) % 7 + (week - 1) * 7);
+  return date.getMonth() === first.getMonth() ? date : null;
+};
+
+// Datas ("yyyy-MM-dd") das ocorrências entre from e to, inclusive
+export const expandOccurrences = (
+  eventDate: string,
+  recurrence: EventRecurrence | null,
+  from: Date,
+  to: Date
+): string[] => {
+  const start = parseISO(eventDate);
+  const fromKey = toKey(from);
+  const toKeyLimit = recurrence?.until && recurrence.until < toKey(to) ? recurrence.until : toKey(to);
+
+  if (!recurrence) {
+    return eventDate >= fromKey && eventDate <= toKeyLimit ? [eventDate] : [];
+  }
+
+  const exceptions = new Set(recurrence.exceptions);
+  const occurrences: string[] = [];
+
+  if (recurrence.frequency === "weekly") {
+    const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [start.getDay()];
+    let day = from > start ? from : start;
+
+    while (toKey(day) <= toKeyLimit) {
+      const key = toKey(day);
+      const weekIndex = differenceInCalendarWeeks(day, start);
+      if (weekIndex % recurrence.interval === 0 && weekdays.includes(day.getDay()) && !exceptions.has(key)) {
+        occurrences.push(key);
+      }
+      day = addDays(day, 1);
+    }
+  } else {
+    const weekday = recurrence.weekday ?? start.getDay();
+    const week = recurrence.week_of_month ?? Math.min(4, Math.ceil(start.getDate() / 7));
+    let month = startOfMonth(start);
+
+    while (toKey(month) <= toKeyLimit) {
+      const date = getNthWeekdayOfMonth(month, weekday, week);
+      if (date) {
+        const key = toKey(date);
+        if (key >= eventDate && key >= fromKey && key <= toKeyLimit && !exceptions.has(key)) {
+          occurrences.push(key);
+        }
+      }
+      month = addMonths(month, recurrence.interval);
+    }
+  }
+
+  return occurrences;
+};
+
+// Próxima ocorrência que ainda não terminou (considera eventos que passam da meia-noite)
+export const getNextOccurrence = (
+  eventDate: string,
+  eventTime: string,
+  endTime: string,
+  recurrence: EventRecurrence | null,
+  now = new Date()
+): string | null => {
+  if (!recurrence) return eventDate;
+
+  const endsNextDay = endTime.slice(0, 5) <= eventTime.slice(0, 5);
+  const from = addDays(now, -1);
+  const occurrences = expandOccurrences(eventDate, recurrence, from, addDays(now, MAX_LOOKAHEAD_DAYS));
+  const currentTime = format(now, "HH:mm");
+  const today = toKey(now);
+
+  return (
+    occurrences.find((date) => {
+      const endDate = endsNextDay ? toKey(addDays(parseISO(date), 1)) : date;
+      return endDate > today || (endDate === today && endTime.slice(0, 5) > currentTime);
+    }) || null
+  );
+};
+
+// Domingo e sábado são masculinos; os demais dias, femininos
+const isMasculineWeekday = (weekday: number) => weekday === 0 || weekday === 6;
+
+// Descrição legível: "Toda semana às terças e quintas", "Todo 2º sábado do mês"
+export const describeRecurrence = (recurrence: EventRecurrence | null) => {
+  if (!recurrence) return null;
+
+  if (recurrence.frequency === "weekly") {
+    // Cada dia leva o próprio artigo: "às terças e aos sábados"
+    const days = (recurrence.weekdays || [])
+      .slice()
+      .sort()
+      .map((day) => `${isMasculineWeekday(day) ? "aos" : "às"} ${WEEKDAY_NAMES[day]}s`);
+    const list = days.length > 1 ? `${days.slice(0, -1).join(", ")} e ${days[days.length - 1]}` : days[0];
+    const every = recurrence.interval > 1 ? `A cada ${recurrence.interval} semanas` : "Toda semana";
+    return list ? `${every} ${list}` : every;
+  }
+
+  const weekday = recurrence.weekday ?? 0;
+  const masculine = isMasculineWeekday(weekday);
+  const week = recurrence.week_of_month ?? 1;
+  const ordinal = week === -1
+    ? (masculine ? "último" : "última")
+    : `${week}${masculine ? "º" : "ª"}`;
+  const every = recurrence.interval > 1 ? `a cada ${recurrence.interval} meses` : "do mês";
+
+  return `${masculine ? "Todo" : "Toda"} ${ordinal} ${WEEKDAY_NAMES[weekday]} ${every}`;
+};
@@ -0,0 +1,9 @@
+
+// Formata uma distância em metros para exibição ("850 m", "1,2 km")
+export const formatDistanceMeters = (meters: number) => {
+  if (meters < 1000) {
+    return `${Math.round(meters)} m`;
+  }
+
+  return `${(meters / 1000).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} km`;
+};
@@ -0,0 +1,125 @@
+// Larguras geradas para o srcset, além da versão "original" (limitada a MAX_IMAGE_WIDTH).
+// Só são geradas as menores que a imagem enviada.
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1280];
+
+const MAX_IMAGE_WIDTH = 1920;
+const PLACEHOLDER_WIDTH = 16;
+const IMAGE_QUALITY = 0.82;
+
+// GIFs animados e SVGs perderiam animação/vetor ao passar pelo canvas.
+// HEIC/HEIF só são decodificados pelo Safari; nos demais o upload segue com o arquivo original.
+const OPTIMIZABLE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/bmp", "image/heic", "image/heif"];
+
+export interface ImageVariant {
+  // Nome do arquivo dentro da pasta da imagem (ex.: "w640.webp", "original-1200w.webp")
+  name: string;
+  width: number;
+  blob: Blob;
+}
+
+export interface ProcessedImage {
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+  // "original" primeiro, depois as miniaturas e o placeholder
+  variants: ImageVariant[];
+}
+
+export const isOptimizableImage = (file: File) => OPTIMIZABLE_TYPES.includes(file.type);
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Não foi possível processar a imagem"))),
+      type,
+      quality
+    );
+  });
+
+const renderAtWidth = (bitmap: ImageBitmap, width: number) => {
+  const targetWidth = Math.min(width, bitmap.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = targetWidth;
+  canvas.height = Math.max(1, Math.round((bitmap.height * targetWidth) / bitmap.width));
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Não foi possível processar a imagem");
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Redesenhar a imagem no canvas descarta todos os metadados (EXIF, GPS);
+// a orientação do EXIF é aplicada antes pelo createImageBitmap
+export const optimizeImage = async (file: File): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const original = renderAtWidth(bitmap, MAX_IMAGE_WIDTH);
+
+    // Navegadores sem encoder WebP devolvem PNG; nesse caso usamos JPEG
+    let contentType = "image/webp";
+    let originalBlob = await canvasToBlob(original, contentType, IMAGE_QUALITY);
+    if (originalBlob.type !== contentType) {
+      contentType = "image/jpeg";
+      originalBlob = await canvasToBlob(original, contentType, IMAGE_QUALITY);
+    }
+    const extension = contentType === "image/webp" ? "webp" : "jpg";
+
+    // A largura no nome do original permite derivar o srcset só a partir da URL
+    const variants: ImageVariant[] = [
+      { name: `original-${original.width}w.${extension}`, width: original.width, blob: originalBlob },
+    ];
+
+    for (const width of IMAGE_VARIANT_WIDTHS.filter((width) => width < original.width)) {
+      const canvas = renderAtWidth(bitmap, width);
+      variants.push({
+        name: `w${width}.${extension}`,
+        width: canvas.width,
+        blob: await canvasToBlob(canvas, contentType, IMAGE_QUALITY),
+      });
+    }
+
+    variants.push({
+      name: `placeholder.${extension}`,
+      width: PLACEHOLDER_WIDTH,
+      blob: await canvasToBlob(renderAtWidth(bitmap, PLACEHOLDER_WIDTH), contentType, 0.5),
+    });
+
+    return { contentType, extension, width: original.width, height: original.height, variants };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const OPTIMIZED_IMAGE_PATTERN = /^(.+\/storage\/v1\/object\/public\/.+)\/original(?:-(\d+)w)?\.(webp|jpg)$/;
+
+export interface ResponsiveImageSources {
+  srcSet?: string;
+  placeholder?: string;
+}
+
+// Deriva o srcset e o placeholder a partir da URL pública da versão "original".
+// Imagens antigas (Dropbox, uploads sem otimização) não têm variantes; originais
+// sem a largura no nome ficam sem srcset para não anunciar larguras que não existem.
+export const getResponsiveImageSources = (url: string): ResponsiveImageSources => {
+  const match = url.match(OPTIMIZED_IMAGE_PATTERN);
+  if (!match) return {};
+
+  const [, folderUrl, originalWidth, extension] = match;
+  const placeholder = `${folderUrl}/placeholder.${extension}`;
+  if (!originalWidth) return { placeholder };
+
+  const width = Number(originalWidth);
+  const srcSet = [
+    ...IMAGE_VARIANT_WIDTHS
+      .filter((variantWidth) => variantWidth < width)
+      .map((variantWidth) => `${folderUrl}/w${variantWidth}.${extension} ${variantWidth}w`),
+    `${url} ${width}w`,
+  ].join(", ");
+
+  return { srcSet, placeholder };
+};
@@ -0,0 +1,32 @@
+
+// Extrai latitude/longitude de links do Google Maps (".../@-23.5,-46.6,15z", "?q=-23.5,-46.6", "!3d-23.5!4d-46.6")
+export const parseMapsUrlCoordinates = (url?: string | null) => {
+  if (!url) return null;
+
+  const patterns = [
+    /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/,
+    /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/,
+    /[?&](?:q|query|ll|destination)=(-?\d+(?:\.\d+)?),\s*(-?\d+(?:\.\d+)?)/,
+  ];
+
+  // Links com "%" solto lançam URIError; nesse caso o texto original é usado
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // mantém o link como veio
+  }
+
+  for (const pattern of patterns) {
+    const match = decoded.match(pattern);
+    if (match) {
+      const latitude = parseFloat(match[1]);
+      const longitude = parseFloat(match[2]);
+      if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+        return { latitude, longitude };
+      }
+    }
+  }
+
+  return null;
+};
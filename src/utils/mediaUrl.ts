@@ -0,0 +1,165 @@
+export type MediaProvider = "youtube" | "dropbox" | "instagram" | "direct";
+export type MediaKind = "image" | "video" | "instagram";
+
+export interface NormalizedMedia {
+  provider: MediaProvider;
+  // URL pronta para <img>, <video> ou <iframe>
+  url: string;
+  youtubeId?: string;
+}
+
+export interface NormalizeOptions {
+  // Restringe os provedores aceitos (ex.: formulários que só aceitam YouTube)
+  providers?: MediaProvider[];
+}
+
+export class MediaUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaUrlError";
+  }
+}
+
+const PROVIDER_LABELS: Record<MediaProvider, string> = {
+  youtube: "YouTube",
+  dropbox: "Dropbox",
+  instagram: "Instagram",
+  direct: "link direto",
+};
+
+const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+const INSTAGRAM_PATH_PATTERN = /^\/(?:[\w.]+\/)?(p|reel|tv)\/([\w-]+)/;
+
+const parseUrl = (value: string) => {
+  const trimmed = value.trim();
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.hostname.includes(".") ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+const hostMatches = (url: URL, domain: string) =>
+  url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+
+export const detectMediaProvider = (value: string): MediaProvider | null => {
+  const url = parseUrl(value);
+  if (!url) return null;
+
+  if (hostMatches(url, "youtube.com") || hostMatches(url, "youtu.be") || hostMatches(url, "youtube-nocookie.com")) {
+    return "youtube";
+  }
+  if (hostMatches(url, "dropbox.com") || hostMatches(url, "dropboxusercontent.com")) {
+    return "dropbox";
+  }
+  if (hostMatches(url, "instagram.com")) {
+    return "instagram";
+  }
+  return "direct";
+};
+
+// Aceita youtu.be/ID, watch?v=ID, /embed/ID, /shorts/ID e /live/ID
+export const getYoutubeVideoId = (value: string): string | null => {
+  const url = parseUrl(value);
+  if (!url || detectMediaProvider(value) !== "youtube") return null;
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  const candidate = hostMatches(url, "youtu.be")
+    ? segments[0]
+    : url.searchParams.get("v") ||
+      (["embed", "shorts", "live", "v"].includes(segments[0]) ? segments[1] : null);
+
+  return candidate && YOUTUBE_ID_PATTERN.test(candidate) ? candidate : null;
+};
+
+export const getYoutubeEmbedUrl = (videoId: string) => `https://www.youtube.com/embed/${videoId}`;
+
+export const getYoutubeThumbnailUrl = (videoId: string, quality: "default" | "hqdefault" | "maxresdefault" = "hqdefault") =>
+  `https://i.ytimg.com/vi/${videoId}/${quality}.jpg`;
+
+// Links compartilhados (www.dropbox.com/...?dl=0) viram download direto,
+// preservando o rlkey dos links novos (/scl/fi/...)
+export const getDropboxDirectUrl = (value: string): string | null => {
+  const url = parseUrl(value);
+  if (!url || detectMediaProvider(value) !== "dropbox") return null;
+
+  url.protocol = "https:";
+  url.hostname = "dl.dropboxusercontent.com";
+  url.searchParams.delete("dl");
+  url.searchParams.delete("raw");
+  return url.toString();
+};
+
+export const getInstagramEmbedUrl = (value: string): string | null => {
+  const url = parseUrl(value);
+  if (!url || detectMediaProvider(value) !== "instagram") return null;
+
+  const match = url.pathname.match(INSTAGRAM_PATH_PATTERN);
+  if (!match) return null;
+
+  // Reels e IGTV são exibidos pelo mesmo embed de posts
+  return `https://instagram.com/p/${match[2]}/embed?cr=1&v=14&wp=540&rd=https%3A%2F%2Finstagram.com`;
+};
+
+const normalizeByProvider = (value: string, provider: MediaProvider, kind: MediaKind): NormalizedMedia => {
+  switch (provider) {
+    case "youtube": {
+      if (kind !== "video") {
+        throw new MediaUrlError("Links do YouTube só podem ser usados como vídeo");
+      }
+      const youtubeId = getYoutubeVideoId(value);
+      if (!youtubeId) {
+        throw new MediaUrlError("Não foi possível identificar o vídeo nesse link do YouTube");
+      }
+      return { provider, url: getYoutubeEmbedUrl(youtubeId), youtubeId };
+    }
+    case "dropbox": {
+      if (kind === "instagram") break;
+      return { provider, url: getDropboxDirectUrl(value)! };
+    }
+    case "instagram": {
+      if (kind !== "instagram") {
+        throw new MediaUrlError("Links do Instagram devem ser adicionados em \"Mídia do Instagram\"");
+      }
+      const embedUrl = getInstagramEmbedUrl(value);
+      if (!embedUrl) {
+        throw new MediaUrlError("Use o link de um post ou reel do Instagram (instagram.com/p/... ou /reel/...)");
+      }
+      return { provider, url: embedUrl };
+    }
+    case "direct": {
+      if (kind === "instagram") break;
+      return { provider, url: parseUrl(value)!.toString() };
+    }
+  }
+
+  throw new MediaUrlError("Informe um link de post ou reel do Instagram");
+};
+
+// Valida e normaliza a URL, lançando MediaUrlError com uma mensagem para o usuário
+export const normalizeMediaUrl = (value: string, kind: MediaKind, { providers }: NormalizeOptions = {}): NormalizedMedia => {
+  if (!value.trim()) {
+    throw new MediaUrlError("Informe uma URL");
+  }
+
+  const provider = detectMediaProvider(value);
+  if (!provider) {
+    throw new MediaUrlError("URL inválida");
+  }
+
+  if (providers && !providers.includes(provider)) {
+    throw new MediaUrlError(`Só são aceitos links do ${providers.map((p) => PROVIDER_LABELS[p]).join(" ou ")}`);
+  }
+
+  return normalizeByProvider(value, provider, kind);
+};
+
+// Versão tolerante para exibição: dados antigos inválidos são usados como estão
+export const resolveMediaUrl = (value: string, kind: MediaKind): NormalizedMedia => {
+  try {
+    return normalizeMediaUrl(value, kind);
+  } catch {
+    return { provider: detectMediaProvider(value) || "direct", url: value };
+  }
+};
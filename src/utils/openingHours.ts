@@ -0,0 +1,177 @@
+import { format } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import type {
+  OpeningHours,
+  OpeningHoursDay,
+  OpeningHoursException,
+  OpeningPeriod,
+} from "@/types/places";
+
+export const WEEKDAY_LABELS = [
+  "Domingo",
+  "Segunda",
+  "Terça",
+  "Quarta",
+  "Quinta",
+  "Sexta",
+  "Sábado",
+];
+
+export const createEmptyOpeningHours = (): OpeningHours => ({
+  weekly: WEEKDAY_LABELS.map(() => ({ closed: true, periods: [] })),
+  exceptions: [],
+  note: "",
+});
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const isValidPeriod = (period: OpeningPeriod) =>
+  /^\d{2}:\d{2}$/.test(period.open) && /^\d{2}:\d{2}$/.test(period.close);
+
+// Converte o valor salvo em places.opening_hours; textos antigos viram observação
+export const parseOpeningHours = (value: Json | null | undefined): OpeningHours | null => {
+  if (!value) return null;
+
+  if (typeof value === "string") {
+    return { ...createEmptyOpeningHours(), note: value };
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) return null;
+
+  const raw = value as unknown as Partial<OpeningHours>;
+  const empty = createEmptyOpeningHours();
+
+  return {
+    weekly: empty.weekly.map((day, index) => {
+      const saved = raw.weekly?.[index];
+      if (!saved) return day;
+      const periods = (saved.periods || []).filter(isValidPeriod);
+      return { closed: saved.closed || periods.length === 0, periods };
+    }),
+    exceptions: (raw.exceptions || [])
+      .filter((exception) => /^\d{4}-\d{2}-\d{2}$/.test(exception.date))
+      .map((exception) => ({
+        ...exception,
+        periods: (exception.periods || []).filter(isValidPeriod),
+      })),
+    note: raw.note || "",
+  };
+};
+
+// Há horário estruturado suficiente para calcular "aberto agora"?
+export const hasSchedule = (hours: OpeningHours | null) =>
+  !!hours && hours.weekly.some((day) => !day.closed && day.periods.length > 0);
+
+// Remove dias vazios e observações em branco antes de salvar; null quando nada foi preenchido
+export const serializeOpeningHours = (hours: OpeningHours | null): OpeningHours | null => {
+  if (!hours) return null;
+
+  const cleaned: OpeningHours = {
+    weekly: hours.weekly.map((day) => {
+      const periods = day.periods.filter(isValidPeriod);
+      return { closed: day.closed || periods.length === 0, periods: day.closed ? [] : periods };
+    }),
+    exceptions: hours.exceptions
+      .filter((exception) => exception.date)
+      .map((exception) => ({
+        ...exception,
+        label: exception.label?.trim() || undefined,
+        periods: exception.closed ? [] : exception.periods.filter(isValidPeriod),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    note: hours.note?.trim() || undefined,
+  };
+
+  if (!hasSchedule(cleaned) && cleaned.exceptions.length === 0 && !cleaned.note) {
+    return null;
+  }
+
+  return cleaned;
+};
+
+const getScheduleForDate = (hours: OpeningHours, date: Date): OpeningHoursDay | OpeningHoursException => {
+  const key = format(date, "yyyy-MM-dd");
+  return hours.exceptions.find((exception) => exception.date === key) || hours.weekly[date.getDay()];
+};
+
+export interface OpeningStatus {
+  isOpen: boolean;
+  // Horário de fechamento quando aberto, ou próxima abertura quando fechado
+  nextChange: { day: Date; time: string } | null;
+  exceptionLabel?: string;
+}
+
+export const getOpeningStatus = (hours: OpeningHours | null, now = new Date()): OpeningStatus | null => {
+  if (!hours || !hasSchedule(hours)) return null;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = getScheduleForDate(hours, now);
+  const yesterdayDate = new Date(now);
+  yesterdayDate.setDate(now.getDate() - 1);
+  const yesterday = getScheduleForDate(hours, yesterdayDate);
+
+  const exceptionLabel = "date" in today ? today.label || "Horário especial" : undefined;
+
+  // Períodos de ontem que atravessam a meia-noite
+  const overnight = yesterday.closed
+    ? undefined
+    : yesterday.periods.find((p) => toMinutes(p.close) <= toMinutes(p.open) && minutes < toMinutes(p.close));
+  if (overnight) {
+    return { isOpen: true, nextChange: { day: now, time: overnight.close }, exceptionLabel };
+  }
+
+  const current = today.closed
+    ? undefined
+    : today.periods.find((p) => {
+        const open = toMinutes(p.open);
+        const close = toMinutes(p.close);
+        return close <= open ? minutes >= open : minutes >= open && minutes < close;
+      });
+  if (current) {
+    const closesTomorrow = toMinutes(current.close) <= toMinutes(current.open);
+    const closingDay = new Date(now);
+    if (closesTomorrow) closingDay.setDate(now.getDate() + 1);
+    return { isOpen: true, nextChange: { day: closingDay, time: current.close }, exceptionLabel };
+  }
+
+  // Procura a próxima abertura nos próximos 7 dias
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(now);
+    day.setDate(now.getDate() + offset);
+    const schedule = getScheduleForDate(hours, day);
+    if (schedule.closed) continue;
+
+    const next = [...schedule.periods]
+      .sort((a, b) => toMinutes(a.open) - toMinutes(b.open))
+      .find((p) => offset > 0 || toMinutes(p.open) > minutes);
+    if (next) {
+      return { isOpen: false, nextChange: { day, time: next.open }, exceptionLabel };
+    }
+  }
+
+  return { isOpen: false, nextChange: null, exceptionLabel };
+};
+
+export const isOpenNow = (value: Json | null | undefined, now = new Date()) =>
+  getOpeningStatus(parseOpeningHours(value), now)?.isOpen ?? false;
+
+export const formatPeriods = (periods: OpeningPeriod[]) =>
+  periods.map((p) => `${p.open} às ${p.close}`).join(", ");
+
+// Texto curto para cards: "Aberto · fecha às 18:00", "Fechado · abre seg. às 08:00"
+export const formatOpeningStatus = (status: OpeningStatus, now = new Date()) => {
+  if (!status.nextChange) {
+    return status.isOpen ? "Aberto agora" : "Fechado";
+  }
+
+  const { day, time } = status.nextChange;
+  const isToday = format(day, "yyyy-MM-dd") === format(now, "yyyy-MM-dd");
+  const dayLabel = isToday ? "" : ` ${WEEKDAY_LABELS[day.getDay()].toLowerCase()}`;
+
+  return status.isOpen
+    ? `Aberto agora · fecha${dayLabel} às ${time}`
+    : `Fechado · abre${dayLabel} às ${time}`;
+};
@@ -0,0 +1,31 @@
+import { differenceInCalendarDays } from "date-fns";
+import type { Product, ProductStatus } from "@/types/products";
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  active: "Ativo",
+  reserved: "Reservado",
+  sold: "Vendido",
+  paused: "Pausado",
+  expired: "Expirado",
+};
+
+// Status que o próprio vendedor pode escolher; "expirado" só é definido pelo sistema
+export const SELLER_SELECTABLE_STATUSES: ProductStatus[] = ["active", "reserved", "sold", "paused"];
+
+// Anúncios com renovação oferecida: vendidos e reservados não expiram para o vendedor
+export const RENEWABLE_STATUSES: ProductStatus[] = ["active", "paused", "expired"];
+
+// Dias antes do vencimento em que o vendedor é convidado a renovar
+export const RENEWAL_WINDOW_DAYS = 3;
+
+// O job de expiração roda de hora em hora; até lá o prazo vencido já vale como expirado
+export const getEffectiveProductStatus = (product: Pick<Product, "status" | "expires_at">, now = new Date()): ProductStatus => {
+  const status = product.status || "active";
+  if (status === "active" && product.expires_at && new Date(product.expires_at) <= now) {
+    return "expired";
+  }
+  return status;
+};
+
+export const getDaysUntilExpiration = (product: Pick<Product, "expires_at">, now = new Date()) =>
+  product.expires_at ? differenceInCalendarDays(new Date(product.expires_at), now) : null;
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Web Push pelo service worker do PWA; cada aparelho/navegador tem sua própria inscrição
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// A chave pública VAPID chega em base64url; o PushManager espera os bytes
+const urlBase64ToUint8Array = (base64Url: string) => {
+  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+};
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+};
+
+// Salva (ou transfere para o usuário atual) a inscrição deste aparelho
+const registerSubscription = async (subscription: PushSubscription) => {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error("Inscrição de push inválida");
+  }
+
+  const { error } = await supabase.rpc("register_push_subscription", {
+    endpoint_param: endpoint,
+    p256dh_param: keys.p256dh,
+    auth_param: keys.auth,
+    user_agent_param: navigator.userAgent,
+  });
+
+  if (error) throw error;
+};
+
+export const subscribeToPush = async (vapidPublicKey: string) => {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Permissão de notificações negada");
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    }));
+
+  await registerSubscription(subscription);
+  return subscription;
+};
+
+// Reenvia a inscrição existente, caso o navegador a tenha renovado ou outro usuário tenha entrado
+export const syncPushSubscription = async () => {
+  const subscription = await getPushSubscription();
+  if (subscription) {
+    await registerSubscription(subscription);
+  }
+  return subscription;
+};
+
+// Remove a inscrição do banco enquanto a sessão ainda existe e cancela no navegador
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+
+  if (error) {
+    console.error("Error removing push subscription:", error);
+  }
+
+  await subscription.unsubscribe();
+};
+
+// Sair da conta: o aparelho para de receber as notificações do usuário
+export const signOut = async () => {
+  try {
+    await unsubscribeFromPush();
+  } catch (error) {
+    console.error("Error unsubscribing from push:", error);
+  }
+
+  return supabase.auth.signOut();
+};
@@ -0,0 +1,166 @@
+import { supabase, SUPABASE_URL, SUPABASE_PUBLISHABLE_KEY } from "@/integrations/supabase/client";
+import { isOptimizableImage, optimizeImage } from "@/utils/imageProcessing";
+
+export type StorageBucket = "media" | "avatars" | "site-assets";
+
+export interface UploadOptions {
+  bucket: StorageBucket;
+  // Subpasta dentro da pasta do usuário (ex.: "products")
+  folder?: string;
+  // Redimensiona, remove EXIF e gera variantes WebP para imagens (padrão: true)
+  optimize?: boolean;
+  onProgress?: (percent: number) => void;
+}
+
+export interface UploadedFile {
+  id: string;
+  path: string;
+  publicUrl: string;
+}
+
+const getExtension = (file: File) => {
+  const fromName = file.name.includes(".") ? file.name.split(".").pop() : null;
+  return (fromName || file.type.split("/")[1] || "bin").toLowerCase();
+};
+
+// O SDK não expõe o progresso do upload, então enviamos via XHR para a API de Storage
+const sendWithProgress = (url: string, file: Blob, accessToken: string, onProgress?: (loaded: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Authorization", `Bearer ${accessToken}`);
+    xhr.setRequestHeader("apikey", SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.setRequestHeader("cache-control", "max-age=31536000");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded);
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+
+      let message = "Erro ao enviar arquivo";
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // resposta sem JSON
+      }
+      reject(new Error(message));
+    };
+
+    xhr.onerror = () => reject(new Error("Falha de conexão ao enviar arquivo"));
+    xhr.send(file);
+  });
+
+interface StorageObject {
+  path: string;
+  blob: Blob;
+}
+
+// Envia o arquivo para <bucket>/<user_id>/<folder>/<uuid>.<ext> e registra na tabela files.
+// Imagens otimizadas viram uma pasta <uuid>/ com original, miniaturas (w320, w640...) e placeholder.
+export const uploadToStorage = async (
+  file: File,
+  { bucket, folder, optimize = true, onProgress }: UploadOptions
+): Promise<UploadedFile> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error("Você precisa estar logado para enviar arquivos");
+  }
+
+  const userId = session.user.id;
+  const basePath = [userId, folder, crypto.randomUUID()].filter(Boolean).join("/");
+  // Formatos que o navegador não decodifica (ex.: HEIC fora do Safari) seguem sem otimização
+  const processed = optimize && isOptimizableImage(file)
+    ? await optimizeImage(file).catch((error) => {
+        console.warn("Image optimization failed, uploading original:", error);
+        return null;
+      })
+    : null;
+
+  const objects: StorageObject[] = processed
+    ? processed.variants.map((variant) => ({ path: `${basePath}/${variant.name}`, blob: variant.blob }))
+    : [{ path: `${basePath}.${getExtension(file)}`, blob: file }];
+  const path = objects[0].path;
+
+  // Progresso agregado de todas as variantes, em bytes
+  const totalBytes = objects.reduce((sum, object) => sum + object.blob.size, 0);
+  let sentBytes = 0;
+  for (const object of objects) {
+    await sendWithProgress(
+      `${SUPABASE_URL}/storage/v1/object/${bucket}/${object.path}`,
+      object.blob,
+      session.access_token,
+      (loaded) => onProgress?.(Math.round(((sentBytes + loaded) / totalBytes) * 100))
+    );
+    sentBytes += object.blob.size;
+  }
+
+  const { data: record, error } = await supabase
+    .from("files")
+    .insert({
+      user_id: userId,
+      bucket,
+      file_name: file.name,
+      file_path: path,
+      file_type: processed?.contentType || file.type,
+      size: objects[0].blob.size,
+      variants: processed
+        ? processed.variants.map((variant, index) => ({ path: objects[index].path, width: variant.width }))
+        : null,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error registering uploaded file:", error);
+    throw error;
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(bucket).getPublicUrl(path);
+
+  return { id: record.id, path, publicUrl };
+};
+
+const PUBLIC_OBJECT_PREFIX = `${SUPABASE_URL}/storage/v1/object/public/`;
+
+// Remove um arquivo enviado por uploadToStorage (com todas as variantes) e o registro em files.
+// URLs de fora do Storage (Dropbox, YouTube...) são ignoradas.
+export const deleteUploadedFile = async (publicUrl: string) => {
+  if (!publicUrl.startsWith(PUBLIC_OBJECT_PREFIX)) return;
+
+  const [bucket, ...pathParts] = publicUrl.slice(PUBLIC_OBJECT_PREFIX.length).split("?")[0].split("/");
+  const path = pathParts.join("/");
+
+  const { data: record, error } = await supabase
+    .from("files")
+    .select("id, variants")
+    .eq("bucket", bucket)
+    .eq("file_path", path)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const variants = record?.variants as { path: string }[] | null;
+  const { error: storageError } = await supabase.storage
+    .from(bucket)
+    .remove(variants?.length ? variants.map((variant) => variant.path) : [path]);
+
+  if (storageError) throw storageError;
+
+  if (record) {
+    const { error: deleteError } = await supabase
+      .from("files")
+      .delete()
+      .eq("id", record.id);
+
+    if (deleteError) throw deleteError;
+  }
+};
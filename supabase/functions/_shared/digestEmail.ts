@@ -0,0 +1,224 @@
+// Monta o e-mail do resumo semanal (HTML e texto puro).
+// Clientes de e-mail ignoram boa parte do CSS: o layout usa tabelas e estilos inline.
+
+export interface DigestBranding {
+  siteName: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  headerColor: string;
+  textColor: string;
+  backgroundColor: string;
+  footerText: string | null;
+}
+
+export interface DigestNews {
+  id: string;
+  title: string;
+  summary: string | null;
+  image: string | null;
+  date: string;
+  category: string | null;
+}
+
+export interface DigestEvent {
+  id: string;
+  title: string;
+  event_date: string;
+  event_time: string;
+  location: string | null;
+  image: string | null;
+}
+
+export interface DigestPlace {
+  id: string;
+  name: string;
+  summary: string | null;
+  city: string | null;
+  image: string | null;
+}
+
+// Mesmo formato retornado por public.get_weekly_digest
+export interface DigestContent {
+  news: DigestNews[];
+  events: DigestEvent[];
+  places: DigestPlace[];
+}
+
+interface DigestItem {
+  title: string;
+  meta: string | null;
+  summary: string | null;
+  image: string | null;
+  url: string;
+}
+
+export interface DigestEmailOptions {
+  branding: DigestBranding;
+  content: DigestContent;
+  siteUrl: string;
+  recipientName: string | null;
+  unsubscribeUrl: string;
+}
+
+export const isDigestEmpty = (content: DigestContent) =>
+  content.news.length === 0 && content.events.length === 0 && content.places.length === 0;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Conteúdos do painel podem ter HTML; o resumo mostra só o texto
+const toPlainText = (value: string | null) =>
+  value ? value.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim() : null;
+
+const formatEventDate = (date: string, time: string) => {
+  const day = new Intl.DateTimeFormat("pt-BR", {
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    timeZone: "UTC",
+  }).format(new Date(`${date}T00:00:00Z`));
+  return `${day} às ${time.slice(0, 5)}`;
+};
+
+const renderItem = (item: DigestItem, branding: DigestBranding) => `
+  <tr>
+    <td style="padding: 12px 0; border-bottom: 1px solid #eeeeee;">
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+        <tr>
+          ${item.image
+            ? `<td width="96" valign="top" style="padding-right: 12px;">
+                <img src="${escapeHtml(item.image)}" alt="" width="96" height="72" style="display: block; width: 96px; height: 72px; object-fit: cover; border-radius: 6px;">
+              </td>`
+            : ""}
+          <td valign="top">
+            <a href="${escapeHtml(item.url)}" style="color: ${branding.textColor}; font-size: 16px; font-weight: bold; text-decoration: none;">${escapeHtml(item.title)}</a>
+            ${item.meta ? `<div style="color: #777777; font-size: 13px; margin-top: 2px;">${escapeHtml(item.meta)}</div>` : ""}
+            ${item.summary ? `<div style="color: #444444; font-size: 14px; margin-top: 4px;">${escapeHtml(item.summary)}</div>` : ""}
+          </td>
+        </tr>
+      </table>
+    </td>
+  </tr>`;
+
+const renderSection = (title: string, items: DigestItem[], branding: DigestBranding) =>
+  items.length === 0
+    ? ""
+    : `
+  <tr>
+    <td style="padding: 24px 24px 0;">
+      <h2 style="margin: 0; color: ${branding.primaryColor}; font-size: 18px;">${escapeHtml(title)}</h2>
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+        ${items.map((item) => renderItem(item, branding)).join("")}
+      </table>
+    </td>
+  </tr>`;
+
+const getSections = (content: DigestContent, siteUrl: string) => [
+  {
+    title: "Notícias da semana",
+    items: content.news.map((news) => ({
+      title: news.title,
+      meta: news.category,
+      summary: toPlainText(news.summary),
+      image: news.image,
+      url: `${siteUrl}/noticias/${news.id}`,
+    })),
+  },
+  {
+    title: "Próximos eventos",
+    items: content.events.map((event) => ({
+      title: event.title,
+      meta: [formatEventDate(event.event_date, event.event_time), event.location].filter(Boolean).join(" · "),
+      summary: null,
+      image: event.image,
+      url: `${siteUrl}/eventos/${event.id}`,
+    })),
+  },
+  {
+    title: "Lugares novos",
+    items: content.places.map((place) => ({
+      title: place.name,
+      meta: place.city,
+      summary: toPlainText(place.summary),
+      image: place.image,
+      url: `${siteUrl}/lugares/${place.id}`,
+    })),
+  },
+];
+
+export function buildDigestEmail({ branding, content, siteUrl, recipientName, unsubscribeUrl }: DigestEmailOptions) {
+  const subject = `Resumo da semana | ${branding.siteName}`;
+  const greeting = recipientName ? `Olá, ${recipientName}!` : "Olá!";
+  const preferencesUrl = `${siteUrl}/notify/preferencias`;
+  const sections = getSections(content, siteUrl);
+
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.siteName)}" height="40" style="display: block; height: 40px;">`
+    : `<span style="color: #ffffff; font-size: 22px; font-weight: bold;">${escapeHtml(branding.siteName)}</span>`;
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: ${branding.backgroundColor}; font-family: Arial, Helvetica, sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: ${branding.backgroundColor};">
+    <tr>
+      <td align="center" style="padding: 24px 12px;">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width: 600px; width: 100%; background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+          <tr>
+            <td style="background-color: ${branding.headerColor}; padding: 20px 24px;">${header}</td>
+          </tr>
+          <tr>
+            <td style="padding: 24px 24px 0; color: ${branding.textColor}; font-size: 15px;">
+              <p style="margin: 0 0 8px;">${escapeHtml(greeting)}</p>
+              <p style="margin: 0;">Veja o que aconteceu na cidade nesta semana e o que vem por aí.</p>
+            </td>
+          </tr>
+          ${sections.map((section) => renderSection(section.title, section.items, branding)).join("")}
+          <tr>
+            <td align="center" style="padding: 24px;">
+              <a href="${escapeHtml(siteUrl)}" style="display: inline-block; background-color: ${branding.primaryColor}; color: #ffffff; padding: 12px 24px; border-radius: 6px; font-weight: bold; text-decoration: none;">Abrir o app</a>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 16px 24px; background-color: #f6f6f6; color: #777777; font-size: 12px; text-align: center;">
+              ${branding.footerText ? `<p style="margin: 0 0 8px;">${escapeHtml(branding.footerText)}</p>` : ""}
+              <p style="margin: 0;">
+                Você recebe este e-mail porque ativou o resumo semanal.
+                <a href="${escapeHtml(preferencesUrl)}" style="color: #777777;">Preferências</a> ·
+                <a href="${escapeHtml(unsubscribeUrl)}" style="color: #777777;">Cancelar inscrição</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = [
+    greeting,
+    "Veja o que aconteceu na cidade nesta semana e o que vem por aí.",
+    ...sections
+      .filter((section) => section.items.length > 0)
+      .map((section) =>
+        [
+          `\n${section.title.toUpperCase()}`,
+          ...section.items.map((item) => `- ${item.title}${item.meta ? ` (${item.meta})` : ""}\n  ${item.url}`),
+        ].join("\n")
+      ),
+    `\nPreferências: ${preferencesUrl}`,
+    `Cancelar inscrição: ${unsubscribeUrl}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
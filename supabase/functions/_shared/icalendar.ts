@@ -0,0 +1,171 @@
+// Geração de arquivos iCalendar (RFC 5545) para eventos
+// Os horários dos eventos são cadastrados no fuso de Brasília, que não tem horário de verão desde 2019
+
+export const EVENT_TIMEZONE = "America/Sao_Paulo";
+const EVENT_UTC_OFFSET = "-03:00";
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  event_date: string;
+  event_time: string;
+  end_time: string;
+  location: string | null;
+  maps_url?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  // Incrementado a cada edição (events.sequence)
+  sequence?: number | null;
+  recurrence?: EventRecurrence | null;
+}
+
+// Mesmo formato salvo em events.recurrence
+export interface EventRecurrence {
+  frequency: "weekly" | "monthly";
+  interval?: number;
+  weekdays?: number[];
+  week_of_month?: number;
+  weekday?: number;
+  until?: string | null;
+  exceptions?: string[];
+}
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${EVENT_TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:-0300",
+  "TZOFFSETTO:-0300",
+  "TZNAME:-03",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Quebra linhas com mais de 75 octetos, como exige a especificação
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatLocalDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, "")}T${time.slice(0, 5).replace(":", "")}00`;
+
+const formatUtcDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Eventos que terminam "antes" de começar atravessam a meia-noite
+export const getEventEndDate = (event: Pick<CalendarEvent, "event_date" | "event_time" | "end_time">) => {
+  if (event.end_time.slice(0, 5) > event.event_time.slice(0, 5)) {
+    return event.event_date;
+  }
+
+  const next = new Date(`${event.event_date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+const buildRRule = (event: CalendarEvent, recurrence: EventRecurrence) => {
+  const weekday = new Date(`${event.event_date}T00:00:00Z`).getUTCDay();
+  const parts = [`FREQ=${recurrence.frequency === "weekly" ? "WEEKLY" : "MONTHLY"}`];
+
+  if (recurrence.interval && recurrence.interval > 1) {
+    parts.push(`INTERVAL=${recurrence.interval}`);
+  }
+
+  if (recurrence.frequency === "weekly") {
+    const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [weekday];
+    parts.push(`BYDAY=${weekdays.map((day) => RRULE_WEEKDAYS[day]).join(",")}`);
+  } else {
+    const week = recurrence.week_of_month ?? Math.min(4, Math.ceil(Number(event.event_date.slice(8, 10)) / 7));
+    parts.push(`BYDAY=${week}${RRULE_WEEKDAYS[recurrence.weekday ?? weekday]}`);
+  }
+
+  // UNTIL precisa estar em UTC: o fim do dia em Brasília é 02:59:59Z do dia seguinte
+  if (recurrence.until) {
+    parts.push(`UNTIL=${formatUtcDateTime(new Date(`${recurrence.until}T23:59:59${EVENT_UTC_OFFSET}`))}`);
+  }
+
+  return `RRULE:${parts.join(";")}`;
+};
+
+// DTSTAMP é o momento em que o arquivo foi gerado; LAST-MODIFIED e SEQUENCE
+// indicam aos calendários assinados que o evento foi editado
+const buildVEvent = (event: CalendarEvent, generatedAt: Date, siteUrl?: string) => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@vale-noticias`,
+    `DTSTAMP:${formatUtcDateTime(generatedAt)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTART;TZID=${EVENT_TIMEZONE}:${formatLocalDateTime(event.event_date, event.event_time)}`,
+    `DTEND;TZID=${EVENT_TIMEZONE}:${formatLocalDateTime(getEventEndDate(event), event.end_time)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  const lastModified = event.updated_at ?? event.created_at;
+  if (lastModified) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(lastModified))}`);
+  }
+
+  if (event.recurrence) {
+    lines.push(buildRRule(event, event.recurrence));
+    for (const date of event.recurrence.exceptions ?? []) {
+      lines.push(`EXDATE;TZID=${EVENT_TIMEZONE}:${formatLocalDateTime(date, event.event_time)}`);
+    }
+  }
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (siteUrl) {
+    lines.push(`URL:${siteUrl.replace(/\/$/, "")}/eventos/${event.id}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+export const buildCalendar = (events: CalendarEvent[], calendarName: string, siteUrl?: string) => {
+  const generatedAt = new Date();
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Vale Noticias//Eventos//PT-BR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${EVENT_TIMEZONE}`,
+    ...VTIMEZONE,
+    ...events.flatMap((event) => buildVEvent(event, generatedAt, siteUrl)),
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n") + "\r\n";
+};
@@ -0,0 +1,17 @@
+// Página aberta ao tocar em uma notificação; espelha src/utils/notificationLinks.ts
+export function getNotificationPath(type: string, referenceId: string | null): string {
+  if (!referenceId) return "/notify";
+
+  switch (type) {
+    case "news":
+      return `/noticias/${referenceId}`;
+    case "event":
+      return `/eventos/${referenceId}`;
+    case "place":
+      return `/lugares/${referenceId}`;
+    case "product":
+      return `/product/${referenceId}`;
+    default:
+      return "/notify";
+  }
+}
@@ -0,0 +1,225 @@
+// Web Push (RFC 8030) com conteúdo criptografado em aes128gcm (RFC 8291)
+// e identificação do servidor por VAPID (RFC 8292), usando apenas WebCrypto
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  // mailto: ou URL de contato exigida pelos serviços de push
+  subject: string;
+}
+
+// Tamanho de registro anunciado no cabeçalho; o conteúdo vai sempre em um único registro
+const RECORD_SIZE = 4096;
+const TAG_LENGTH = 16;
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+async function ecdhSecret(privateKey: CryptoKey, publicKeyBytes: Uint8Array): Promise<Uint8Array> {
+  const publicKey = await crypto.subtle.importKey(
+    "raw",
+    publicKeyBytes,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+  const bits = await crypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+  return new Uint8Array(bits);
+}
+
+// Chave e nonce do conteúdo (RFC 8291, seção 3.4)
+async function deriveContentKeys(
+  sharedSecret: Uint8Array,
+  authSecret: Uint8Array,
+  userAgentPublic: Uint8Array,
+  appServerPublic: Uint8Array,
+  salt: Uint8Array
+) {
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), userAgentPublic, appServerPublic);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+  return { contentKey, nonce };
+}
+
+export async function encryptPayload(subscription: PushSubscriptionKeys, payload: string): Promise<Uint8Array> {
+  const userAgentPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+
+  // Par de chaves descartável, um por mensagem
+  const localKeys = (await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"]
+  )) as CryptoKeyPair;
+  const appServerPublic = new Uint8Array(await crypto.subtle.exportKey("raw", localKeys.publicKey));
+
+  const sharedSecret = await ecdhSecret(localKeys.privateKey, userAgentPublic);
+  const { contentKey, nonce } = await deriveContentKeys(
+    sharedSecret,
+    authSecret,
+    userAgentPublic,
+    appServerPublic,
+    salt
+  );
+
+  // 0x02 marca o último (e único) registro
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  if (plaintext.length + TAG_LENGTH > RECORD_SIZE) {
+    throw new Error("Conteúdo grande demais para uma notificação push");
+  }
+
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, plaintext));
+
+  // Cabeçalho: salt (16) | tamanho do registro (4) | tamanho da chave (1) | chave pública do servidor
+  const header = new Uint8Array(21 + appServerPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = appServerPublic.length;
+  header.set(appServerPublic, 21);
+
+  return concat(header, ciphertext);
+}
+
+// Lado do navegador; usado pelo endpoint local de testes
+export async function decryptPayload(
+  body: Uint8Array,
+  userAgentKeys: CryptoKeyPair,
+  authSecret: Uint8Array
+): Promise<string> {
+  const salt = body.slice(0, 16);
+  const keyLength = body[20];
+  const appServerPublic = body.slice(21, 21 + keyLength);
+  const ciphertext = body.slice(21 + keyLength);
+
+  const userAgentPublic = new Uint8Array(await crypto.subtle.exportKey("raw", userAgentKeys.publicKey));
+  const sharedSecret = await ecdhSecret(userAgentKeys.privateKey, appServerPublic);
+  const { contentKey, nonce } = await deriveContentKeys(
+    sharedSecret,
+    authSecret,
+    userAgentPublic,
+    appServerPublic,
+    salt
+  );
+
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["decrypt"]);
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, key, ciphertext));
+
+  // Remove o preenchimento: zeros seguidos do delimitador
+  let end = plaintext.length - 1;
+  while (end >= 0 && plaintext[end] === 0) {
+    end--;
+  }
+  return new TextDecoder().decode(plaintext.slice(0, end));
+}
+
+// Cabeçalho Authorization com JWT ES256 assinado pela chave privada VAPID
+async function vapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+    },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = base64UrlEncode(
+    encoder.encode(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const unsigned = `${header}.${claims}`;
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    encoder.encode(unsigned)
+  );
+
+  return `vapid t=${unsigned}.${base64UrlEncode(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidKeys,
+  ttlSeconds = 24 * 60 * 60
+): Promise<Response> {
+  const body = await encryptPayload(subscription, payload);
+
+  return fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(ttlSeconds),
+    },
+    body,
+  });
+}
+
+// 404/410: o navegador cancelou a inscrição e ela deve ser apagada
+export function isExpiredSubscription(response: Response): boolean {
+  return response.status === 404 || response.status === 410;
+}
+
+export async function generateVapidKeys(): Promise<{ publicKey: string; privateKey: string }> {
+  const keys = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"]
+  )) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey));
+  const privateKey = await crypto.subtle.exportKey("jwk", keys.privateKey);
+
+  return { publicKey: base64UrlEncode(publicKey), privateKey: privateKey.d! };
+}
@@ -0,0 +1,96 @@
+// Exporta eventos em formato iCalendar (.ics)
+//   ?event_id=<id>       um único evento (download / "adicionar ao calendário")
+//   ?category_id=<id>    feed assinável com os próximos eventos da categoria
+//   (sem parâmetros)     feed com todos os próximos eventos
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.48.1";
+import { buildCalendar, EVENT_TIMEZONE, type CalendarEvent } from "../_shared/icalendar.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EVENT_COLUMNS = "id, title, description, event_date, event_time, end_time, location, maps_url, created_at, updated_at, sequence, recurrence";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!
+  );
+  const siteUrl = Deno.env.get("SITE_URL") ?? undefined;
+
+  const url = new URL(req.url);
+  const eventId = url.searchParams.get("event_id");
+  const categoryId = url.searchParams.get("category_id");
+
+  let events: CalendarEvent[] = [];
+  let calendarName = "Eventos";
+  let disposition = 'inline; filename="eventos.ics"';
+
+  if (eventId) {
+    const { data, error } = await supabase
+      .from("events")
+      .select(EVENT_COLUMNS)
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching event:", error);
+      return new Response("Erro ao buscar evento", { status: 500, headers: corsHeaders });
+    }
+    if (!data) {
+      return new Response("Evento não encontrado", { status: 404, headers: corsHeaders });
+    }
+
+    events = [data];
+    calendarName = data.title;
+    disposition = 'attachment; filename="evento.ics"';
+  } else {
+    const today = new Intl.DateTimeFormat("en-CA", { timeZone: EVENT_TIMEZONE }).format(new Date());
+
+    let query = supabase
+      .from("events")
+      .select(EVENT_COLUMNS)
+      // Eventos recorrentes que começaram no passado continuam no feed
+      .or(`event_date.gte.${today},recurrence.not.is.null`)
+      .order("event_date", { ascending: true })
+      .order("event_time", { ascending: true });
+
+    if (categoryId) {
+      const { data: category } = await supabase
+        .from("categories")
+        .select("name")
+        .eq("id", categoryId)
+        .maybeSingle();
+
+      if (!category) {
+        return new Response("Categoria não encontrada", { status: 404, headers: corsHeaders });
+      }
+
+      query = query.eq("category_id", categoryId);
+      calendarName = `Eventos - ${category.name}`;
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching events:", error);
+      return new Response("Erro ao buscar eventos", { status: 500, headers: corsHeaders });
+    }
+
+    events = data ?? [];
+  }
+
+  return new Response(buildCalendar(events, calendarName, siteUrl), {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": disposition,
+      "Cache-Control": "public, max-age=900",
+    },
+  });
+});
@@ -0,0 +1,144 @@
+// Envia notificações Web Push para os aparelhos inscritos em push_subscriptions.
+// Chamada pelo trigger dispatch_push_notifications com { "notification_ids": [...] }
+// e autenticada pelo cabeçalho x-push-secret (PUSH_WEBHOOK_SECRET).
+//
+// Secrets: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT e PUSH_WEBHOOK_SECRET.
+// Para testar sem navegador, veja local-endpoint.ts.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.48.1";
+import { isExpiredSubscription, sendWebPush, type VapidKeys } from "../_shared/webpush.ts";
+import { getNotificationPath } from "../_shared/notificationLinks.ts";
+
+// Envios simultâneos por vez, para não estourar conexões em envios em massa
+const CONCURRENCY = 50;
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Método não permitido" }, 405);
+  }
+
+  const webhookSecret = Deno.env.get("PUSH_WEBHOOK_SECRET");
+  if (!webhookSecret || req.headers.get("x-push-secret") !== webhookSecret) {
+    return jsonResponse({ error: "Não autorizado" }, 401);
+  }
+
+  const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    return jsonResponse({ error: "Chaves VAPID não configuradas" }, 500);
+  }
+  const vapid: VapidKeys = {
+    publicKey: vapidPublicKey,
+    privateKey: vapidPrivateKey,
+    subject: Deno.env.get("VAPID_SUBJECT") ?? "mailto:contato@valenoticias.com.br",
+  };
+
+  const { notification_ids: notificationIds } = await req.json().catch(() => ({}));
+  if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
+    return jsonResponse({ error: "Informe notification_ids" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: notifications, error: notificationsError } = await supabase
+    .from("notifications")
+    .select("id, user_id, title, message, type, reference_id")
+    .in("id", notificationIds);
+
+  if (notificationsError) {
+    console.error("Error fetching notifications:", notificationsError);
+    return jsonResponse({ error: "Erro ao buscar notificações" }, 500);
+  }
+
+  const userIds = [...new Set(notifications.map((notification) => notification.user_id).filter(Boolean))];
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", userIds);
+
+  if (subscriptionsError) {
+    console.error("Error fetching push subscriptions:", subscriptionsError);
+    return jsonResponse({ error: "Erro ao buscar inscrições" }, 500);
+  }
+
+  const { data: siteConfig } = await supabase
+    .from("site_configuration")
+    .select("pwa_app_icon")
+    .maybeSingle();
+
+  const deliveries = notifications.flatMap((notification) =>
+    (subscriptions as PushSubscriptionRow[])
+      .filter((subscription) => subscription.user_id === notification.user_id)
+      .map((subscription) => ({
+        subscription,
+        payload: JSON.stringify({
+          title: notification.title,
+          body: notification.message,
+          url: getNotificationPath(notification.type, notification.reference_id),
+          icon: siteConfig?.pwa_app_icon ?? undefined,
+          // Mesma notificação em reenvios substitui a anterior em vez de duplicar
+          tag: notification.id,
+        }),
+      }))
+  );
+
+  const delivered = new Set<string>();
+  const expired = new Set<string>();
+  let sent = 0;
+  let failed = 0;
+
+  for (let start = 0; start < deliveries.length; start += CONCURRENCY) {
+    const chunk = deliveries.slice(start, start + CONCURRENCY);
+    const results = await Promise.allSettled(
+      chunk.map(({ subscription, payload }) => sendWebPush(subscription, payload, vapid))
+    );
+
+    results.forEach((result, index) => {
+      const { subscription } = chunk[index];
+      if (result.status === "fulfilled" && result.value.ok) {
+        sent++;
+        delivered.add(subscription.id);
+      } else if (result.status === "fulfilled" && isExpiredSubscription(result.value)) {
+        expired.add(subscription.id);
+      } else {
+        failed++;
+        console.error(
+          "Push delivery failed:",
+          subscription.endpoint,
+          result.status === "fulfilled" ? result.value.status : result.reason
+        );
+      }
+    });
+  }
+
+  if (expired.size > 0) {
+    const { error } = await supabase.from("push_subscriptions").delete().in("id", [...expired]);
+    if (error) console.error("Error removing expired push subscriptions:", error);
+  }
+
+  if (delivered.size > 0) {
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .update({ last_used_at: new Date().toISOString() })
+      .in("id", [...delivered]);
+    if (error) console.error("Error updating push subscriptions:", error);
+  }
+
+  return jsonResponse({ sent, failed, removed: expired.size });
+});
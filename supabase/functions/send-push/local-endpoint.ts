@@ -0,0 +1,62 @@
+// Serviço de push falso para testar o envio sem navegador.
+// Gera as chaves de um "aparelho", imprime o SQL da inscrição e descriptografa
+// tudo o que a função send-push entregar.
+//
+//   deno run --allow-net local-endpoint.ts <user_id> [porta]
+//
+// Com `supabase start`, as funções rodam em Docker: o endpoint usa host.docker.internal
+// para ser alcançável de dentro do container. Para gerar um par de chaves VAPID:
+//
+//   deno run local-endpoint.ts --vapid
+import { base64UrlEncode, decryptPayload, generateVapidKeys } from "../_shared/webpush.ts";
+
+if (Deno.args[0] === "--vapid") {
+  const keys = await generateVapidKeys();
+  console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+  console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
+  console.log("\n-- Chave pública para o navegador:");
+  console.log(`UPDATE public.site_configuration SET vapid_public_key = '${keys.publicKey}';`);
+  Deno.exit(0);
+}
+
+const [userId, portArg] = Deno.args;
+if (!userId) {
+  console.error("Uso: deno run --allow-net local-endpoint.ts <user_id> [porta]");
+  Deno.exit(1);
+}
+const port = Number(portArg ?? 8787);
+
+const keys = (await crypto.subtle.generateKey(
+  { name: "ECDH", namedCurve: "P-256" },
+  true,
+  ["deriveBits"]
+)) as CryptoKeyPair;
+const publicKey = base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey)));
+const authSecret = crypto.getRandomValues(new Uint8Array(16));
+const endpoint = `http://host.docker.internal:${port}/push/${crypto.randomUUID()}`;
+
+console.log("-- Inscrição do aparelho de teste:");
+console.log(
+  `INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)\n` +
+    `VALUES ('${userId}', '${endpoint}', '${publicKey}', '${base64UrlEncode(authSecret)}', 'local-endpoint');`
+);
+console.log(`\nAguardando pushes em http://localhost:${port} ...\n`);
+
+Deno.serve({ port }, async (req) => {
+  const authorization = req.headers.get("authorization") ?? "";
+  if (!authorization.startsWith("vapid t=")) {
+    console.warn("Push sem cabeçalho VAPID");
+    return new Response("Cabeçalho VAPID ausente", { status: 401 });
+  }
+
+  try {
+    const body = new Uint8Array(await req.arrayBuffer());
+    const payload = await decryptPayload(body, keys, authSecret);
+    console.log(`[${new Date().toISOString()}] TTL=${req.headers.get("ttl")}`);
+    console.log(JSON.stringify(JSON.parse(payload), null, 2));
+    return new Response(null, { status: 201 });
+  } catch (error) {
+    console.error("Falha ao descriptografar o push:", error);
+    return new Response("Conteúdo inválido", { status: 400 });
+  }
+});
@@ -0,0 +1,260 @@
+// Resumo semanal por e-mail para quem ativou notification_preferences.email_digest.
+//   POST (x-digest-secret)               envia um lote para quem ainda não recebeu nesta semana;
+//                                        chamado pelo pg_cron via dispatch_weekly_digest.
+//                                        Corpo opcional para testes: { "user_ids": [...], "force": true }
+//   GET ?preview=1 (x-digest-secret)     devolve o HTML do resumo sem enviar
+//   GET ?unsubscribe=<token>             página de confirmação do descadastro (link do e-mail)
+//   POST ?unsubscribe=<token>            efetiva o descadastro: botão da página ou One-Click (RFC 8058).
+//                                        Só o POST altera, pois leitores de e-mail e antivírus abrem links com GET
+//
+// Secrets: DIGEST_WEBHOOK_SECRET, SITE_URL, SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS e SMTP_FROM.
+// DIGEST_PUBLIC_URL é a URL pública desta função, usada no link de descadastro.
+//
+// Teste local com o Inbucket do `supabase start` (e-mails em http://localhost:54324):
+//   SMTP_HOST=host.docker.internal SMTP_PORT=54325 (sem usuário e senha)
+//   DIGEST_PUBLIC_URL=http://localhost:54321/functions/v1/weekly-digest
+//   curl -X POST -H "x-digest-secret: $DIGEST_WEBHOOK_SECRET" -d '{"force": true}' \
+//     http://localhost:54321/functions/v1/weekly-digest
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.48.1";
+import nodemailer from "npm:nodemailer@6.9.16";
+import {
+  buildDigestEmail,
+  isDigestEmpty,
+  type DigestBranding,
+  type DigestContent,
+} from "../_shared/digestEmail.ts";
+
+// E-mails por chamada. O cron chama a cada 5 minutos nas segundas das 8h às 20h59 (156 chamadas),
+// o que comporta até ~31 mil inscritos; acima disso aumente este valor ou a janela do cron
+const MAX_EMAILS_PER_RUN = 200;
+// Quem recebeu há menos tempo que isso já recebeu o resumo desta semana
+const RESEND_AFTER_MS = 6 * 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const htmlResponse = (html: string, status = 200) =>
+  new Response(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+
+const messagePage = (title: string, message: string, siteUrl: string) => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+<body style="font-family: Arial, Helvetica, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; text-align: center;">
+  <h1 style="font-size: 20px;">${title}</h1>
+  <p>${message}</p>
+  <p><a href="${siteUrl}/notify/preferencias">Gerenciar preferências</a></p>
+</body>
+</html>`;
+
+const confirmUnsubscribePage = (token: string, siteUrl: string) => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Cancelar inscrição</title></head>
+<body style="font-family: Arial, Helvetica, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; text-align: center;">
+  <h1 style="font-size: 20px;">Cancelar inscrição</h1>
+  <p>Deseja deixar de receber o resumo semanal por e-mail?</p>
+  <form method="post" action="?unsubscribe=${token}">
+    <button type="submit" style="font-size: 16px; padding: 10px 20px; cursor: pointer;">Cancelar inscrição</button>
+  </form>
+  <p><a href="${siteUrl}/notify/preferencias">Gerenciar preferências</a></p>
+</body>
+</html>`;
+
+const getBranding = async (supabase: ReturnType<typeof createClient>): Promise<DigestBranding> => {
+  const { data } = await supabase
+    .from("site_configuration")
+    .select("navbar_logo_type, navbar_logo_image, navbar_logo_text, pwa_name, primary_color, navbar_color, text_color, background_color, footer_copyright_text")
+    .maybeSingle();
+
+  return {
+    siteName: data?.navbar_logo_text || data?.pwa_name || "Vale Notícias",
+    logoUrl: data?.navbar_logo_type === "image" ? data.navbar_logo_image : null,
+    primaryColor: data?.primary_color || "#9b87f5",
+    headerColor: data?.navbar_color || "#1A1F2C",
+    textColor: data?.text_color || "#1A1F2C",
+    backgroundColor: data?.background_color || "#f4f4f5",
+    footerText: data?.footer_copyright_text ?? null,
+  };
+};
+
+Deno.serve(async (req) => {
+  const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/$/, "");
+  if (!siteUrl) {
+    return jsonResponse({ error: "SITE_URL não configurada" }, 500);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const url = new URL(req.url);
+
+  const unsubscribeToken = url.searchParams.get("unsubscribe");
+  if (unsubscribeToken !== null) {
+    if (!UUID_PATTERN.test(unsubscribeToken)) {
+      return htmlResponse(messagePage("Link inválido", "Este link de descadastro não é válido.", siteUrl), 400);
+    }
+
+    if (req.method === "GET") {
+      return htmlResponse(confirmUnsubscribePage(unsubscribeToken, siteUrl));
+    }
+
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Método não permitido" }, 405);
+    }
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .update({ email_digest: false })
+      .eq("digest_token", unsubscribeToken);
+
+    if (error) {
+      console.error("Error unsubscribing from digest:", error);
+      return htmlResponse(messagePage("Algo deu errado", "Não foi possível cancelar a inscrição. Tente novamente.", siteUrl), 500);
+    }
+
+    return htmlResponse(
+      messagePage("Inscrição cancelada", "Você não receberá mais o resumo semanal por e-mail.", siteUrl)
+    );
+  }
+
+  const webhookSecret = Deno.env.get("DIGEST_WEBHOOK_SECRET");
+  if (!webhookSecret || req.headers.get("x-digest-secret") !== webhookSecret) {
+    return jsonResponse({ error: "Não autorizado" }, 401);
+  }
+
+  const { data: digest, error: digestError } = await supabase.rpc("get_weekly_digest");
+  if (digestError) {
+    console.error("Error fetching digest content:", digestError);
+    return jsonResponse({ error: "Erro ao montar o resumo" }, 500);
+  }
+
+  const content = digest as DigestContent;
+  const branding = await getBranding(supabase);
+  const functionUrl = Deno.env.get("DIGEST_PUBLIC_URL") ?? `${Deno.env.get("SUPABASE_URL")}/functions/v1/weekly-digest`;
+  const getUnsubscribeUrl = (token: string) => `${functionUrl}?unsubscribe=${token}`;
+
+  if (req.method === "GET" && url.searchParams.has("preview")) {
+    const { html } = buildDigestEmail({
+      branding,
+      content,
+      siteUrl,
+      recipientName: null,
+      unsubscribeUrl: getUnsubscribeUrl("00000000-0000-0000-0000-000000000000"),
+    });
+    return htmlResponse(html);
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Método não permitido" }, 405);
+  }
+
+  // Semana sem novidades: ninguém recebe um e-mail vazio
+  if (isDigestEmpty(content)) {
+    return jsonResponse({ sent: 0, failed: 0, empty: true });
+  }
+
+  const { user_ids: userIds, force = false } = await req.json().catch(() => ({}));
+
+  let query = supabase
+    .from("notification_preferences")
+    .select("user_id, digest_token, profiles!inner(email, full_name, is_blocked)")
+    .eq("email_digest", true)
+    .not("profiles.email", "is", null)
+    .not("profiles.is_blocked", "is", true)
+    // Quem nunca foi tentado (ou foi há mais tempo) vem primeiro: falhas voltam para o fim
+    // da fila e não ocupam o lote de todas as chamadas
+    .order("last_digest_attempt_at", { ascending: true, nullsFirst: true })
+    .order("user_id", { ascending: true })
+    .limit(MAX_EMAILS_PER_RUN);
+
+  if (Array.isArray(userIds)) {
+    query = query.in("user_id", userIds);
+  }
+
+  if (!force) {
+    const sentBefore = new Date(Date.now() - RESEND_AFTER_MS).toISOString();
+    query = query.or(`last_digest_sent_at.is.null,last_digest_sent_at.lt.${sentBefore}`);
+  }
+
+  const { data: recipients, error: recipientsError } = await query;
+  if (recipientsError) {
+    console.error("Error fetching digest recipients:", recipientsError);
+    return jsonResponse({ error: "Erro ao buscar inscritos" }, 500);
+  }
+
+  const smtpUser = Deno.env.get("SMTP_USER");
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get("SMTP_HOST"),
+    port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+    secure: Deno.env.get("SMTP_PORT") === "465",
+    auth: smtpUser ? { user: smtpUser, pass: Deno.env.get("SMTP_PASS") } : undefined,
+  });
+  const from = Deno.env.get("SMTP_FROM") ?? `${branding.siteName} <no-reply@valenoticias.com.br>`;
+
+  const sentUserIds: string[] = [];
+  let failed = 0;
+
+  // Envio sequencial: servidores SMTP limitam conexões simultâneas
+  for (const recipient of recipients) {
+    const profile = recipient.profiles as unknown as { email: string; full_name: string | null };
+    const unsubscribeUrl = getUnsubscribeUrl(recipient.digest_token);
+    const { subject, html, text } = buildDigestEmail({
+      branding,
+      content,
+      siteUrl,
+      recipientName: profile.full_name?.split(" ")[0] ?? null,
+      unsubscribeUrl,
+    });
+
+    try {
+      await transporter.sendMail({
+        from,
+        to: profile.email,
+        subject,
+        html,
+        text,
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      sentUserIds.push(recipient.user_id);
+    } catch (error) {
+      failed++;
+      console.error("Error sending digest to", recipient.user_id, error);
+    }
+  }
+
+  const now = new Date().toISOString();
+
+  if (recipients.length > 0) {
+    const { error } = await supabase
+      .from("notification_preferences")
+      .update({ last_digest_attempt_at: now })
+      .in("user_id", recipients.map((recipient) => recipient.user_id));
+    if (error) console.error("Error updating digest attempt time:", error);
+  }
+
+  if (sentUserIds.length > 0) {
+    const { error } = await supabase
+      .from("notification_preferences")
+      .update({ last_digest_sent_at: now })
+      .in("user_id", sentUserIds);
+    if (error) console.error("Error updating digest send time:", error);
+  }
+
+  return jsonResponse({
+    sent: sentUserIds.length,
+    failed,
+    // Lote cheio: ainda pode haver inscritos aguardando a próxima chamada
+    hasMore: recipients.length === MAX_EMAILS_PER_RUN,
+  });
+});
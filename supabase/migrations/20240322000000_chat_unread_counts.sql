@@ -0,0 +1,50 @@
+
+-- Atualiza chats.updated_at a cada nova mensagem para ordenar a caixa de entrada
+CREATE OR REPLACE FUNCTION public.touch_chat_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.chats
+    SET updated_at = timezone('utc'::text, now())
+    WHERE id = NEW.chat_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_chat_on_message ON public.messages;
+
+CREATE TRIGGER touch_chat_on_message
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_chat_on_message();
+
+-- Índice para contagem de mensagens não lidas por conversa
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_created_at
+ON public.messages(chat_id, created_at);
+
+-- Retorna a quantidade de mensagens não lidas (enviadas por outros participantes
+-- depois de last_read_at) em cada conversa do usuário autenticado
+CREATE OR REPLACE FUNCTION public.get_chat_unread_counts()
+RETURNS TABLE (chat_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        cp.chat_id,
+        COUNT(m.id) AS unread_count
+    FROM public.chat_participants cp
+    LEFT JOIN public.messages m
+        ON m.chat_id = cp.chat_id
+        AND m.sender_id <> cp.user_id
+        AND m.created_at > COALESCE(cp.last_read_at, '-infinity'::timestamptz)
+    WHERE cp.user_id = auth.uid()
+    GROUP BY cp.chat_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_chat_unread_counts() TO authenticated;
@@ -0,0 +1,58 @@
+-- Status online em tabela própria: publicar profiles no Realtime enviaria a linha
+-- inteira (e-mail, telefone, endereço) a cada atualização
+CREATE TABLE IF NOT EXISTS public.user_presence (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    online_status BOOLEAN NOT NULL DEFAULT false,
+    -- Renovado periodicamente enquanto o app está aberto; sem renovação o usuário é considerado offline
+    last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.user_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view presence"
+ON public.user_presence FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can create their own presence"
+ON public.user_presence FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own presence"
+ON public.user_presence FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Publica mensagens e status online no Supabase Realtime para entrega ao vivo
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'messages'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'user_presence'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.user_presence;
+    END IF;
+
+    -- profiles nunca deve ser publicada
+    IF EXISTS (
+        SELECT 1
+        FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'profiles'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime DROP TABLE public.profiles;
+    END IF;
+END $$;
@@ -0,0 +1,76 @@
+
+-- Permissões por usuário para as áreas do painel administrativo
+CREATE TABLE IF NOT EXISTS public.user_permissions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    permission permission_type NOT NULL,
+    granted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE(user_id, permission)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_permissions_user_id ON public.user_permissions(user_id);
+
+-- Verifica se o usuário autenticado possui a permissão (administradores possuem todas)
+CREATE OR REPLACE FUNCTION public.has_permission(required_permission permission_type)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.user_permissions
+            WHERE user_id = auth.uid()
+            AND permission IN ('owner', 'admin', required_permission)
+        );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(permission_type) TO authenticated;
+
+-- Verifica se o usuário autenticado é proprietário. Diferente de has_permission('owner'),
+-- administradores não passam: só proprietários gerenciam as permissões owner e admin
+CREATE OR REPLACE FUNCTION public.is_owner()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_permissions
+        WHERE user_id = auth.uid()
+        AND permission = 'owner'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_owner() TO authenticated;
+
+-- Adicionar políticas de segurança (RLS)
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Usuários podem ver suas próprias permissões; administradores veem todas
+CREATE POLICY "Users can view their own permissions"
+ON public.user_permissions FOR SELECT
+USING (auth.uid() = user_id OR public.has_permission('admin'));
+
+-- Apenas administradores podem conceder permissões; owner e admin só por proprietários
+CREATE POLICY "Admins can grant permissions"
+ON public.user_permissions FOR INSERT
+WITH CHECK (
+    public.has_permission('admin')
+    AND (permission NOT IN ('owner', 'admin') OR public.is_owner())
+);
+
+-- Apenas administradores podem revogar permissões; owner e admin só por proprietários
+CREATE POLICY "Admins can revoke permissions"
+ON public.user_permissions FOR DELETE
+USING (
+    public.has_permission('admin')
+    AND (permission NOT IN ('owner', 'admin') OR public.is_owner())
+);
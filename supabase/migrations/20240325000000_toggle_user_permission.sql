@@ -0,0 +1,48 @@
+
+-- Concede ou revoga uma permissão e registra a ação em user_audit_logs
+CREATE OR REPLACE FUNCTION public.toggle_user_permission(
+    target_user_id UUID,
+    permission_param permission_type,
+    should_grant BOOLEAN,
+    admin_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF admin_user_id IS DISTINCT FROM auth.uid() OR NOT public.has_permission('admin') THEN
+        RAISE EXCEPTION 'Apenas administradores podem gerenciar permissões';
+    END IF;
+
+    IF permission_param IN ('owner', 'admin') AND NOT public.is_owner() THEN
+        RAISE EXCEPTION 'Apenas proprietários podem gerenciar as permissões de proprietário e administrador';
+    END IF;
+
+    IF should_grant THEN
+        INSERT INTO public.user_permissions (user_id, permission, granted_by)
+        VALUES (target_user_id, permission_param, admin_user_id)
+        ON CONFLICT (user_id, permission) DO NOTHING;
+    ELSE
+        DELETE FROM public.user_permissions
+        WHERE user_id = target_user_id
+        AND permission = permission_param;
+    END IF;
+
+    -- Permissão já concedida (ou já ausente): nada mudou, nada a registrar
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.user_audit_logs (user_id, action, details, performed_by)
+    VALUES (
+        target_user_id,
+        CASE WHEN should_grant THEN 'grant_permission' ELSE 'revoke_permission' END,
+        jsonb_build_object('permission', permission_param),
+        admin_user_id
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.toggle_user_permission(UUID, permission_type, BOOLEAN, UUID) TO authenticated;
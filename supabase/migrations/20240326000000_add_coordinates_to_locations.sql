@@ -0,0 +1,5 @@
+
+-- Coordenadas do centro de cada cidade, usadas como origem da busca por raio
+ALTER TABLE public.locations
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
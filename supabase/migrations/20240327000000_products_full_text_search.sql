@@ -0,0 +1,34 @@
+
+-- Busca textual em português, sem diferenciar acentos
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() não é IMMUTABLE, o que impede seu uso em colunas geradas e índices
+CREATE OR REPLACE FUNCTION public.f_unaccent(text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+    SELECT public.unaccent('public.unaccent'::regdictionary, $1);
+$$;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese', public.f_unaccent(coalesce(title, ''))), 'A') ||
+    setweight(to_tsvector('portuguese', public.f_unaccent(coalesce(description, ''))), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+ON public.products USING GIN (search_vector);
+
+-- Índices para os filtros e a paginação por cursor (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_products_created_at_id
+ON public.products(created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_products_price
+ON public.products(price);
+
+CREATE INDEX IF NOT EXISTS idx_products_category_id
+ON public.products(category_id);
@@ -0,0 +1,13 @@
+
+-- Converte horários antigos em texto livre para o formato estruturado,
+-- preservando o texto original como observação
+UPDATE public.places
+SET opening_hours = jsonb_build_object(
+    'weekly', (
+        SELECT jsonb_agg(jsonb_build_object('closed', true, 'periods', '[]'::jsonb))
+        FROM generate_series(0, 6)
+    ),
+    'exceptions', '[]'::jsonb,
+    'note', opening_hours #>> '{}'
+)
+WHERE jsonb_typeof(opening_hours) = 'string';
@@ -0,0 +1,11 @@
+
+-- Regra de recorrência dos eventos (semanal, mensal por dia da semana e exceções)
+-- event_date passa a ser a data da primeira ocorrência
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+COMMENT ON COLUMN public.events.recurrence IS
+'{"frequency": "weekly" | "monthly", "interval": 1, "weekdays": [0-6], "week_of_month": 1-4 | -1, "weekday": 0-6, "until": "yyyy-MM-dd", "exceptions": ["yyyy-MM-dd"]}';
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring ON public.events(event_date)
+WHERE recurrence IS NOT NULL;
@@ -0,0 +1,73 @@
+
+-- Buckets para upload de mídia (substituem links do Dropbox)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+    ('media', 'media', true, 52428800, ARRAY['image/*', 'video/*']),
+    ('avatars', 'avatars', true, 5242880, ARRAY['image/*']),
+    ('site-assets', 'site-assets', true, 5242880, ARRAY['image/*'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Leitura pública dos arquivos enviados
+CREATE POLICY "Public read access for uploads"
+ON storage.objects FOR SELECT
+USING (bucket_id IN ('media', 'avatars', 'site-assets'));
+
+-- Cada usuário envia apenas para a própria pasta (<user_id>/...)
+CREATE POLICY "Users can upload to their own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id IN ('media', 'avatars')
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can update their own uploads"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+    bucket_id IN ('media', 'avatars')
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own uploads"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+    bucket_id IN ('media', 'avatars')
+    AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Logo e ícone do PWA: apenas administradores, também na própria pasta
+CREATE POLICY "Admins can manage site assets"
+ON storage.objects FOR ALL
+TO authenticated
+USING (
+    bucket_id = 'site-assets'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND public.has_permission('admin')
+)
+WITH CHECK (
+    bucket_id = 'site-assets'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND public.has_permission('admin')
+);
+
+-- Registro de cada upload na tabela files
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS bucket TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_files_user_id ON public.files(user_id);
+
+ALTER TABLE public.files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own files"
+ON public.files FOR SELECT
+USING (auth.uid() = user_id OR public.has_permission('admin'));
+
+CREATE POLICY "Users can register their own files"
+ON public.files FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own files"
+ON public.files FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Variantes geradas no upload de imagens (original, miniaturas e placeholder)
+ALTER TABLE public.files
+ADD COLUMN IF NOT EXISTS variants JSONB;
+
+COMMENT ON COLUMN public.files.variants IS 'Lista de {path, width} das versões redimensionadas em WebP; a primeira é a original';
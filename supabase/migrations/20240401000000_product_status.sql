@@ -0,0 +1,137 @@
+-- Ciclo de vida dos anúncios: ativo, reservado, vendido, pausado e expirado
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'reserved', 'sold', 'paused', 'expired')),
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Prazo de validade dos anúncios, configurável pelo painel
+ALTER TABLE public.site_configuration
+ADD COLUMN IF NOT EXISTS product_expiration_days INTEGER NOT NULL DEFAULT 30
+    CHECK (product_expiration_days > 0);
+
+CREATE OR REPLACE FUNCTION public.get_product_expiration_date()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT now() + make_interval(days => coalesce(
+        (SELECT product_expiration_days FROM public.site_configuration LIMIT 1),
+        30
+    ));
+$$;
+
+-- Novos anúncios recebem a data de expiração no momento da publicação
+CREATE OR REPLACE FUNCTION public.set_product_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.status := 'active';
+    NEW.expires_at := public.get_product_expiration_date();
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_product_expiration ON public.products;
+CREATE TRIGGER set_product_expiration
+BEFORE INSERT ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_expiration();
+
+-- Anúncios existentes passam a expirar a partir de agora
+UPDATE public.products
+SET expires_at = public.get_product_expiration_date()
+WHERE expires_at IS NULL;
+
+-- Renova um anúncio do próprio usuário por mais um período
+CREATE OR REPLACE FUNCTION public.renew_product(product_id_param UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_expires_at TIMESTAMP WITH TIME ZONE := public.get_product_expiration_date();
+BEGIN
+    UPDATE public.products
+    SET status = 'active',
+        expires_at = new_expires_at,
+        updated_at = now()
+    WHERE id = product_id_param
+    AND user_id = auth.uid()
+    AND status IN ('active', 'paused', 'expired');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Anúncio não encontrado ou não pode ser renovado';
+    END IF;
+
+    RETURN new_expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.renew_product(UUID) TO authenticated;
+
+-- Marca como expirados os anúncios ativos cujo prazo terminou
+CREATE OR REPLACE FUNCTION public.expire_products()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired_count INTEGER;
+BEGIN
+    UPDATE public.products
+    SET status = 'expired',
+        updated_at = now()
+    WHERE status = 'active'
+    AND expires_at < now();
+
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+    RETURN expired_count;
+END;
+$$;
+
+-- Executada apenas pelo pg_cron, nunca pela API
+REVOKE EXECUTE ON FUNCTION public.expire_products() FROM PUBLIC, anon, authenticated;
+
+-- Executa a expiração a cada hora; as buscas públicas também filtram por expires_at,
+-- então um atraso do agendamento nunca exibe anúncios vencidos
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'expire-products',
+    '0 * * * *',
+    'SELECT public.expire_products()'
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_status_expires_at
+ON public.products(status, expires_at);
+
+-- O dono altera o status livremente, mas o prazo só é estendido por renew_product
+CREATE OR REPLACE FUNCTION public.protect_product_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') THEN
+        NEW.expires_at := OLD.expires_at;
+
+        IF OLD.status = 'expired' AND NEW.status = 'active' THEN
+            NEW.status := 'expired';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_product_expiration ON public.products;
+CREATE TRIGGER protect_product_expiration
+BEFORE UPDATE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_product_expiration();
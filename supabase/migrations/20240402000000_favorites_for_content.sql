@@ -0,0 +1,30 @@
+-- Favoritos passam a aceitar eventos, lugares e notícias, além de produtos
+ALTER TABLE public.favorites
+ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES public.places(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS news_id UUID REFERENCES public.news(id) ON DELETE CASCADE;
+
+-- Produtos excluídos também removem os favoritos
+ALTER TABLE public.favorites
+DROP CONSTRAINT IF EXISTS favorites_product_id_fkey,
+ADD CONSTRAINT favorites_product_id_fkey
+    FOREIGN KEY (product_id) REFERENCES public.products(id) ON DELETE CASCADE;
+
+-- product_id era opcional: favoritos sem produto não apontam para nada e impediriam a restrição abaixo
+DELETE FROM public.favorites
+WHERE product_id IS NULL;
+
+-- Cada favorito aponta para exatamente um item
+ALTER TABLE public.favorites
+ADD CONSTRAINT favorites_single_target CHECK (
+    num_nonnulls(product_id, event_id, place_id, news_id) = 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorites_user_event
+ON public.favorites(user_id, event_id) WHERE event_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorites_user_place
+ON public.favorites(user_id, place_id) WHERE place_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_favorites_user_news
+ON public.favorites(user_id, news_id) WHERE news_id IS NOT NULL;
@@ -0,0 +1,125 @@
+-- Buscas de produtos salvas pelo usuário, com alerta de novos anúncios
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    search_term TEXT,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+    condition TEXT,
+    min_price NUMERIC,
+    max_price NUMERIC,
+    -- Origem e raio da busca por proximidade (aparelho ou centro da cidade)
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    radius_km NUMERIC CHECK (radius_km > 0),
+    notify BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id
+ON public.saved_searches(user_id);
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+ON public.saved_searches FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+ON public.saved_searches FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+ON public.saved_searches FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+ON public.saved_searches FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Distância em quilômetros entre dois pontos (fórmula de haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+    lat1 DOUBLE PRECISION,
+    lon1 DOUBLE PRECISION,
+    lat2 DOUBLE PRECISION,
+    lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+    SELECT 6371 * 2 * asin(sqrt(
+        power(sin(radians(lat2 - lat1) / 2), 2) +
+        cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+    ));
+$$;
+
+-- Avisa os donos das buscas salvas que combinam com o anúncio recém-publicado.
+-- As regras espelham os filtros da página de produtos: o raio tem precedência
+-- sobre a cidade, e o termo usa a mesma busca textual sem acentos.
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    saved_search RECORD;
+BEGIN
+    IF NEW.status <> 'active' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR saved_search IN
+        SELECT DISTINCT ON (s.user_id) s.user_id, s.name
+        FROM public.saved_searches s
+        WHERE s.notify
+        AND s.user_id <> NEW.user_id
+        AND (s.category_id IS NULL OR s.category_id = NEW.category_id)
+        AND (s.condition IS NULL OR s.condition = NEW.condition)
+        AND (s.min_price IS NULL OR NEW.price >= s.min_price)
+        AND (s.max_price IS NULL OR NEW.price <= s.max_price)
+        AND (
+            coalesce(s.search_term, '') = ''
+            OR NEW.search_vector @@ websearch_to_tsquery('portuguese', public.f_unaccent(s.search_term))
+        )
+        AND (
+            CASE
+                WHEN s.latitude IS NOT NULL AND s.longitude IS NOT NULL THEN
+                    public.distance_km(s.latitude, s.longitude, NEW.latitude, NEW.longitude)
+                        <= coalesce(s.radius_km, 5)
+                WHEN s.location_id IS NOT NULL THEN
+                    s.location_id = NEW.location_id
+                ELSE true
+            END
+        )
+        ORDER BY s.user_id, s.created_at
+    LOOP
+        -- Uma falha no envio nunca deve impedir a publicação do anúncio
+        BEGIN
+            PERFORM public.send_system_notification(
+                saved_search.user_id,
+                format('Novo anúncio para "%s"', saved_search.name),
+                format('%s por R$ %s', NEW.title, replace(to_char(NEW.price, 'FM999999990.00'), '.', ',')),
+                'product',
+                NEW.id,
+                NEW.title,
+                left(NEW.description, 200)
+            );
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Falha ao notificar busca salva de %: %', saved_search.user_id, SQLERRM;
+        END;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_saved_search_matches ON public.products;
+CREATE TRIGGER notify_saved_search_matches
+AFTER INSERT ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_saved_search_matches();
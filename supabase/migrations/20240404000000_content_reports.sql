@@ -0,0 +1,132 @@
+-- Denúncias de anúncios, perfis, eventos e lugares, analisadas no painel de moderação
+CREATE TABLE IF NOT EXISTS public.content_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('product', 'profile', 'event', 'place')),
+    target_id UUID NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('scam', 'abuse', 'wrong_info', 'spam', 'inappropriate', 'other')),
+    details TEXT CHECK (char_length(details) <= 1000),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+    -- Ação tomada pelo moderador: hide, warn, block ou dismiss
+    resolution TEXT,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+-- Cada usuário tem no máximo uma denúncia em aberto por item
+CREATE UNIQUE INDEX IF NOT EXISTS idx_content_reports_pending_unique
+ON public.content_reports(reporter_id, target_type, target_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_status_created_at
+ON public.content_reports(status, created_at DESC);
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create reports"
+ON public.content_reports FOR INSERT
+WITH CHECK (auth.uid() = reporter_id AND status = 'pending');
+
+CREATE POLICY "Users can view their own reports"
+ON public.content_reports FOR SELECT
+USING (auth.uid() = reporter_id OR public.has_permission('admin'));
+
+-- Conteúdo ocultado pela moderação continua visível para o dono e para quem pode editá-lo
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.places ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Hidden products are only visible to owners and admins"
+ON public.products AS RESTRICTIVE FOR SELECT
+USING (NOT is_hidden OR auth.uid() = user_id OR public.has_permission('admin'));
+
+CREATE POLICY "Hidden events are only visible to owners and editors"
+ON public.events AS RESTRICTIVE FOR SELECT
+USING (NOT is_hidden OR auth.uid() = user_id OR public.has_permission('events_editor'));
+
+CREATE POLICY "Hidden places are only visible to owners and editors"
+ON public.places AS RESTRICTIVE FOR SELECT
+USING (NOT is_hidden OR auth.uid() = user_id OR public.has_permission('places_editor'));
+
+-- Dono do conteúdo denunciado (o próprio perfil, no caso de denúncias de perfil)
+CREATE OR REPLACE FUNCTION public.get_report_target_owner(target_type_param TEXT, target_id_param UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE target_type_param
+        WHEN 'product' THEN (SELECT user_id FROM public.products WHERE id = target_id_param)
+        WHEN 'event' THEN (SELECT user_id FROM public.events WHERE id = target_id_param)
+        WHEN 'place' THEN (SELECT user_id FROM public.places WHERE id = target_id_param)
+        WHEN 'profile' THEN target_id_param
+    END;
+$$;
+
+-- Aplica a decisão da moderação e encerra todas as denúncias em aberto do mesmo item.
+-- O bloqueio reutiliza toggle_user_block, que também registra a ação na auditoria.
+CREATE OR REPLACE FUNCTION public.moderate_content_report(
+    report_id_param UUID,
+    action_param TEXT,
+    note_param TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    report public.content_reports%ROWTYPE;
+    owner_id UUID;
+BEGIN
+    IF NOT public.has_permission('admin') THEN
+        RAISE EXCEPTION 'Apenas administradores podem moderar denúncias';
+    END IF;
+
+    IF action_param NOT IN ('hide', 'warn', 'block', 'dismiss') THEN
+        RAISE EXCEPTION 'Ação de moderação inválida: %', action_param;
+    END IF;
+
+    SELECT * INTO report FROM public.content_reports WHERE id = report_id_param;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Denúncia não encontrada';
+    END IF;
+
+    owner_id := public.get_report_target_owner(report.target_type, report.target_id);
+
+    IF action_param = 'hide' THEN
+        CASE report.target_type
+            WHEN 'product' THEN UPDATE public.products SET is_hidden = true WHERE id = report.target_id;
+            WHEN 'event' THEN UPDATE public.events SET is_hidden = true WHERE id = report.target_id;
+            WHEN 'place' THEN UPDATE public.places SET is_hidden = true WHERE id = report.target_id;
+            ELSE RAISE EXCEPTION 'Perfis não podem ser ocultados; use o bloqueio';
+        END CASE;
+    ELSIF action_param IN ('warn', 'block') AND owner_id IS NULL THEN
+        RAISE EXCEPTION 'O conteúdo denunciado não tem um responsável para ser advertido ou bloqueado';
+    ELSIF action_param = 'block' THEN
+        PERFORM public.toggle_user_block(owner_id, true, auth.uid());
+    END IF;
+
+    IF action_param IN ('hide', 'warn') AND owner_id IS NOT NULL THEN
+        PERFORM public.send_system_notification(
+            owner_id,
+            CASE WHEN action_param = 'hide' THEN 'Conteúdo ocultado pela moderação' ELSE 'Aviso da moderação' END,
+            coalesce(nullif(trim(note_param), ''), 'Recebemos denúncias sobre um conteúdo seu. Revise as regras de uso da plataforma.'),
+            'moderation',
+            report.target_id
+        );
+    END IF;
+
+    UPDATE public.content_reports
+    SET status = CASE WHEN action_param = 'dismiss' THEN 'dismissed' ELSE 'resolved' END,
+        resolution = action_param,
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE target_type = report.target_type
+    AND target_id = report.target_id
+    AND status = 'pending';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.moderate_content_report(UUID, TEXT, TEXT) TO authenticated;
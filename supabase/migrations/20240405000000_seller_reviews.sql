@@ -0,0 +1,135 @@
+-- Avaliações de vendedores feitas por compradores que entraram em contato
+CREATE TABLE IF NOT EXISTS public.seller_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    seller_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- Anúncio que motivou o contato, quando houver
+    product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT CHECK (char_length(comment) <= 1000),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+    -- Uma avaliação por par comprador/vendedor; novas notas editam a existente
+    UNIQUE (seller_id, reviewer_id),
+    CHECK (seller_id <> reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_reviews_seller_id_created_at
+ON public.seller_reviews(seller_id, created_at DESC);
+
+-- Média e total de avaliações, mantidos por trigger para exibição nos cards
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2),
+ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+
+-- Verifica se o usuário autenticado já enviou mensagem em uma conversa com o vendedor
+CREATE OR REPLACE FUNCTION public.has_contacted_seller(seller_id_param UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.messages m
+        JOIN public.chat_participants cp
+            ON cp.chat_id = m.chat_id
+            AND cp.user_id = seller_id_param
+        WHERE m.sender_id = auth.uid()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_contacted_seller(UUID) TO authenticated;
+
+ALTER TABLE public.seller_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Seller reviews are public"
+ON public.seller_reviews FOR SELECT
+USING (true);
+
+CREATE POLICY "Buyers can review sellers they contacted"
+ON public.seller_reviews FOR INSERT
+WITH CHECK (auth.uid() = reviewer_id AND public.has_contacted_seller(seller_id));
+
+CREATE POLICY "Reviewers can update their own reviews"
+ON public.seller_reviews FOR UPDATE
+USING (auth.uid() = reviewer_id)
+WITH CHECK (auth.uid() = reviewer_id);
+
+CREATE POLICY "Reviewers can delete their own reviews"
+ON public.seller_reviews FOR DELETE
+USING (auth.uid() = reviewer_id OR public.has_permission('admin'));
+
+-- O vendedor avaliado e o autor não mudam depois da criação
+CREATE OR REPLACE FUNCTION public.protect_seller_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.seller_id := OLD.seller_id;
+    NEW.reviewer_id := OLD.reviewer_id;
+    NEW.created_at := OLD.created_at;
+    NEW.updated_at := timezone('utc'::text, now());
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_seller_review ON public.seller_reviews;
+CREATE TRIGGER protect_seller_review
+BEFORE UPDATE ON public.seller_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_seller_review();
+
+-- Recalcula a média do vendedor a cada avaliação criada, editada ou removida
+CREATE OR REPLACE FUNCTION public.refresh_seller_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_seller_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.seller_id ELSE NEW.seller_id END;
+BEGIN
+    UPDATE public.profiles
+    SET rating_average = stats.average,
+        rating_count = stats.total
+    FROM (
+        SELECT round(avg(rating), 2) AS average, count(*) AS total
+        FROM public.seller_reviews
+        WHERE seller_id = target_seller_id
+    ) AS stats
+    WHERE id = target_seller_id;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_seller_rating ON public.seller_reviews;
+CREATE TRIGGER refresh_seller_rating
+AFTER INSERT OR UPDATE OR DELETE ON public.seller_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_seller_rating();
+
+-- Usuários não podem alterar a própria nota pelo update do perfil
+CREATE OR REPLACE FUNCTION public.protect_profile_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') THEN
+        NEW.rating_average := OLD.rating_average;
+        NEW.rating_count := OLD.rating_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_rating ON public.profiles;
+CREATE TRIGGER protect_profile_rating
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_rating();
@@ -0,0 +1,156 @@
+-- Preferências de notificação por tipo de conteúdo, categoria e cidade.
+-- Usuários sem registro recebem tudo (valores padrão).
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    news BOOLEAN NOT NULL DEFAULT true,
+    events BOOLEAN NOT NULL DEFAULT true,
+    places BOOLEAN NOT NULL DEFAULT true,
+    -- Alertas de novos anúncios das buscas salvas
+    products BOOLEAN NOT NULL DEFAULT true,
+    -- Vazio significa "todas"; categorias valem apenas para o tipo de página a que pertencem
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    location_ids UUID[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Quem tinha desativado a chave global de profiles.notifications_enabled continua sem receber
+INSERT INTO public.notification_preferences (user_id, news, events, places, products)
+SELECT id, false, false, false, false
+FROM public.profiles
+WHERE notifications_enabled = false
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Decide se o usuário quer receber uma notificação do tipo informado.
+-- Tipos sem preferência (moderação, mensagens do sistema) são sempre entregues.
+-- A cidade só filtra conteúdos que têm cidade; notícias sem cidade passam.
+CREATE OR REPLACE FUNCTION public.wants_notification(
+    p_user_id UUID,
+    p_type TEXT,
+    p_category_id UUID DEFAULT NULL,
+    p_location_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    prefs public.notification_preferences%ROWTYPE;
+    category_page_type TEXT;
+BEGIN
+    SELECT * INTO prefs FROM public.notification_preferences WHERE user_id = p_user_id;
+    IF NOT FOUND THEN
+        RETURN true;
+    END IF;
+
+    IF NOT CASE p_type
+        WHEN 'news' THEN prefs.news
+        WHEN 'event' THEN prefs.events
+        WHEN 'place' THEN prefs.places
+        WHEN 'product' THEN prefs.products
+        ELSE true
+    END THEN
+        RETURN false;
+    END IF;
+
+    IF p_category_id IS NOT NULL AND NOT p_category_id = ANY(prefs.category_ids) THEN
+        SELECT page_type INTO category_page_type FROM public.categories WHERE id = p_category_id;
+
+        -- Há categorias escolhidas para este tipo de página, mas não esta
+        IF EXISTS (
+            SELECT 1 FROM public.categories
+            WHERE id = ANY(prefs.category_ids)
+            AND page_type = category_page_type
+        ) THEN
+            RETURN false;
+        END IF;
+    END IF;
+
+    IF p_location_id IS NOT NULL
+        AND cardinality(prefs.location_ids) > 0
+        AND NOT p_location_id = ANY(prefs.location_ids) THEN
+        RETURN false;
+    END IF;
+
+    RETURN true;
+END;
+$$;
+
+-- Recebe qualquer p_user_id: usada apenas pelas funções que enviam notificações,
+-- nunca pela API, para não expor as preferências de outros usuários
+REVOKE EXECUTE ON FUNCTION public.wants_notification(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Alertas de buscas salvas passam a respeitar as preferências
+CREATE OR REPLACE FUNCTION public.notify_saved_search_matches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    saved_search RECORD;
+BEGIN
+    IF NEW.status <> 'active' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR saved_search IN
+        SELECT DISTINCT ON (s.user_id) s.user_id, s.name
+        FROM public.saved_searches s
+        WHERE s.notify
+        AND s.user_id <> NEW.user_id
+        AND (s.category_id IS NULL OR s.category_id = NEW.category_id)
+        AND (s.condition IS NULL OR s.condition = NEW.condition)
+        AND (s.min_price IS NULL OR NEW.price >= s.min_price)
+        AND (s.max_price IS NULL OR NEW.price <= s.max_price)
+        AND (
+            coalesce(s.search_term, '') = ''
+            OR NEW.search_vector @@ websearch_to_tsquery('portuguese', public.f_unaccent(s.search_term))
+        )
+        AND (
+            CASE
+                WHEN s.latitude IS NOT NULL AND s.longitude IS NOT NULL THEN
+                    public.distance_km(s.latitude, s.longitude, NEW.latitude, NEW.longitude)
+                        <= coalesce(s.radius_km, 5)
+                WHEN s.location_id IS NOT NULL THEN
+                    s.location_id = NEW.location_id
+                ELSE true
+            END
+        )
+        AND public.wants_notification(s.user_id, 'product', NEW.category_id, NEW.location_id)
+        ORDER BY s.user_id, s.created_at
+    LOOP
+        -- Uma falha no envio nunca deve impedir a publicação do anúncio
+        BEGIN
+            PERFORM public.send_system_notification(
+                saved_search.user_id,
+                format('Novo anúncio para "%s"', saved_search.name),
+                format('%s por R$ %s', NEW.title, replace(to_char(NEW.price, 'FM999999990.00'), '.', ',')),
+                'product',
+                NEW.id,
+                NEW.title,
+                left(NEW.description, 200)
+            );
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Falha ao notificar busca salva de %: %', saved_search.user_id, SQLERRM;
+        END;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
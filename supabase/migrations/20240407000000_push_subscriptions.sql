@@ -0,0 +1,134 @@
+-- Notificações Web Push (PWA): uma inscrição por aparelho/navegador do usuário
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- URL do serviço de push do navegador; identifica o aparelho
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id
+ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own push subscriptions"
+ON public.push_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Um aparelho que troca de conta passa a pertencer ao novo usuário.
+-- A inscrição antiga não é visível pela RLS, então a troca é feita aqui.
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+    endpoint_param TEXT,
+    p256dh_param TEXT,
+    auth_param TEXT,
+    user_agent_param TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Usuário não autenticado';
+    END IF;
+
+    INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+    VALUES (auth.uid(), endpoint_param, p256dh_param, auth_param, user_agent_param)
+    ON CONFLICT (endpoint) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Chave pública VAPID usada pelo navegador ao se inscrever.
+-- A chave privada fica apenas nos secrets da função send-push.
+ALTER TABLE public.site_configuration
+ADD COLUMN IF NOT EXISTS vapid_public_key TEXT;
+
+-- Novas notificações são repassadas à função send-push.
+-- A URL da função e o segredo compartilhado ficam no Vault:
+--   SELECT vault.create_secret('https://<projeto>.supabase.co/functions/v1/send-push', 'send_push_url');
+--   SELECT vault.create_secret('<mesmo valor de PUSH_WEBHOOK_SECRET>', 'send_push_secret');
+-- Sem esses segredos (ex.: ambiente local sem push), as notificações seguem apenas no app.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.dispatch_push_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    function_url TEXT;
+    webhook_secret TEXT;
+    batch UUID[];
+BEGIN
+    SELECT decrypted_secret INTO function_url
+    FROM vault.decrypted_secrets WHERE name = 'send_push_url';
+
+    SELECT decrypted_secret INTO webhook_secret
+    FROM vault.decrypted_secrets WHERE name = 'send_push_secret';
+
+    IF function_url IS NULL OR webhook_secret IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Trigger por comando: envios em massa viram poucas requisições de até 500 notificações
+    FOR batch IN
+        SELECT array_agg(id)
+        FROM (
+            SELECT n.id, (row_number() OVER () - 1) / 500 AS batch_number
+            FROM new_notifications n
+            WHERE EXISTS (
+                SELECT 1 FROM public.push_subscriptions s WHERE s.user_id = n.user_id
+            )
+        ) numbered
+        GROUP BY batch_number
+    LOOP
+        -- Falhas no push nunca devem impedir a criação da notificação
+        BEGIN
+            PERFORM net.http_post(
+                url := function_url,
+                body := jsonb_build_object('notification_ids', batch),
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'x-push-secret', webhook_secret
+                )
+            );
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Falha ao enviar push: %', SQLERRM;
+        END;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS dispatch_push_notifications ON public.notifications;
+CREATE TRIGGER dispatch_push_notifications
+AFTER INSERT ON public.notifications
+REFERENCING NEW TABLE AS new_notifications
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.dispatch_push_notifications();
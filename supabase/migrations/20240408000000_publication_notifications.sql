@@ -0,0 +1,211 @@
+-- Notifica os usuários quando uma notícia ou evento é publicado.
+-- A publicação apenas enfileira um envio; o pg_cron entrega em lotes,
+-- para que audiências grandes não travem o cadastro no painel.
+CREATE TABLE IF NOT EXISTS public.notification_broadcasts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    content_type TEXT NOT NULL CHECK (content_type IN ('news', 'event')),
+    reference_id UUID NOT NULL,
+    -- Último perfil já processado; os lotes seguem a ordem de profiles.id
+    last_user_id UUID,
+    notified_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT timezone('utc'::text, now()),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    -- Um envio por conteúdo: edições nunca notificam de novo
+    UNIQUE (content_type, reference_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_broadcasts_pending
+ON public.notification_broadcasts(created_at)
+WHERE completed_at IS NULL;
+
+-- Escrita apenas pelas funções abaixo; administradores acompanham o andamento
+ALTER TABLE public.notification_broadcasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification broadcasts"
+ON public.notification_broadcasts FOR SELECT
+USING (public.has_permission('admin'));
+
+-- Evita notificar o mesmo usuário duas vezes sobre o mesmo conteúdo
+CREATE INDEX IF NOT EXISTS idx_notifications_user_reference
+ON public.notifications(user_id, type, reference_id);
+
+CREATE OR REPLACE FUNCTION public.enqueue_publication_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notification_broadcasts (content_type, reference_id)
+    VALUES (TG_ARGV[0], NEW.id)
+    ON CONFLICT (content_type, reference_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_news_notification ON public.news;
+CREATE TRIGGER enqueue_news_notification
+AFTER INSERT ON public.news
+FOR EACH ROW
+EXECUTE FUNCTION public.enqueue_publication_notification('news');
+
+DROP TRIGGER IF EXISTS enqueue_event_notification ON public.events;
+CREATE TRIGGER enqueue_event_notification
+AFTER INSERT ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.enqueue_publication_notification('event');
+
+-- Entrega os envios pendentes em lotes de batch_size perfis, até max_batches por execução.
+-- O conteúdo é lido na hora do envio: edições feitas antes do término já saem atualizadas,
+-- e conteúdos excluídos ou ocultados pela moderação encerram o envio.
+CREATE OR REPLACE FUNCTION public.process_notification_broadcasts(
+    batch_size INTEGER DEFAULT 1000,
+    max_batches INTEGER DEFAULT 20
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    broadcast public.notification_broadcasts%ROWTYPE;
+    publication RECORD;
+    batches_left INTEGER := max_batches;
+    batch_last_id UUID;
+    batch_count INTEGER;
+    total INTEGER := 0;
+BEGIN
+    FOR broadcast IN
+        SELECT * FROM public.notification_broadcasts
+        WHERE completed_at IS NULL
+        ORDER BY created_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        EXIT WHEN batches_left = 0;
+
+        IF broadcast.content_type = 'news' THEN
+            SELECT
+                n.title,
+                left(n.content, 200) AS description,
+                n.category_id,
+                c.name AS category_name,
+                n.date::timestamptz AS publication_date,
+                n.user_id AS author_id,
+                'Nova notícia' AS notification_title,
+                n.title AS message,
+                false AS is_hidden
+            INTO publication
+            FROM public.news n
+            LEFT JOIN public.categories c ON c.id = n.category_id
+            WHERE n.id = broadcast.reference_id;
+        ELSE
+            SELECT
+                e.title,
+                left(e.description, 200) AS description,
+                e.category_id,
+                c.name AS category_name,
+                (e.event_date + e.event_time::time) AT TIME ZONE 'America/Sao_Paulo' AS publication_date,
+                e.user_id AS author_id,
+                'Novo evento' AS notification_title,
+                format(
+                    '%s · %s às %s',
+                    e.title,
+                    to_char(e.event_date, 'DD/MM'),
+                    to_char(e.event_time::time, 'HH24:MI')
+                ) AS message,
+                e.is_hidden
+            INTO publication
+            FROM public.events e
+            LEFT JOIN public.categories c ON c.id = e.category_id
+            WHERE e.id = broadcast.reference_id;
+        END IF;
+
+        IF NOT FOUND OR publication.is_hidden THEN
+            UPDATE public.notification_broadcasts
+            SET completed_at = timezone('utc'::text, now())
+            WHERE id = broadcast.id;
+            CONTINUE;
+        END IF;
+
+        LOOP
+            EXIT WHEN batches_left = 0;
+            batches_left := batches_left - 1;
+
+            -- Um INSERT por lote: o push (dispatch_push_notifications) também sai em lotes
+            WITH recipients AS (
+                SELECT p.id, p.is_blocked
+                FROM public.profiles p
+                WHERE broadcast.last_user_id IS NULL OR p.id > broadcast.last_user_id
+                ORDER BY p.id
+                LIMIT batch_size
+            ),
+            created AS (
+                INSERT INTO public.notifications (
+                    user_id,
+                    title,
+                    message,
+                    type,
+                    reference_id,
+                    publication_title,
+                    publication_description,
+                    publication_category,
+                    publication_date
+                )
+                SELECT
+                    r.id,
+                    publication.notification_title,
+                    publication.message,
+                    broadcast.content_type,
+                    broadcast.reference_id,
+                    publication.title,
+                    publication.description,
+                    publication.category_name,
+                    publication.publication_date
+                FROM recipients r
+                WHERE r.id IS DISTINCT FROM publication.author_id
+                AND NOT coalesce(r.is_blocked, false)
+                AND public.wants_notification(r.id, broadcast.content_type, publication.category_id)
+                AND NOT EXISTS (
+                    SELECT 1 FROM public.notifications n
+                    WHERE n.user_id = r.id
+                    AND n.type = broadcast.content_type
+                    AND n.reference_id = broadcast.reference_id
+                )
+                RETURNING 1
+            )
+            SELECT
+                (SELECT id FROM recipients ORDER BY id DESC LIMIT 1),
+                (SELECT count(*) FROM created)
+            INTO batch_last_id, batch_count;
+
+            IF batch_last_id IS NULL THEN
+                UPDATE public.notification_broadcasts
+                SET completed_at = timezone('utc'::text, now())
+                WHERE id = broadcast.id;
+                EXIT;
+            END IF;
+
+            UPDATE public.notification_broadcasts
+            SET last_user_id = batch_last_id,
+                notified_count = notified_count + batch_count
+            WHERE id = broadcast.id;
+
+            broadcast.last_user_id := batch_last_id;
+            total := total + batch_count;
+        END LOOP;
+    END LOOP;
+
+    RETURN total;
+END;
+$$;
+
+-- Executada apenas pelo pg_cron, nunca pela API
+REVOKE EXECUTE ON FUNCTION public.process_notification_broadcasts(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Envios começam em até um minuto após a publicação
+SELECT cron.schedule(
+    'process-notification-broadcasts',
+    '* * * * *',
+    'SELECT public.process_notification_broadcasts()'
+);
@@ -0,0 +1,22 @@
+-- Publica notificações no Supabase Realtime para o contador de não lidas ao vivo
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END $$;
+
+-- Paginação da central de notificações por (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at
+ON public.notifications(user_id, created_at DESC, id DESC);
+
+-- Contador de não lidas
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications(user_id)
+WHERE read = false;
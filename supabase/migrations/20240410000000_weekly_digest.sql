@@ -0,0 +1,206 @@
+-- Resumo semanal por e-mail com notícias, eventos e lugares novos.
+-- Opt-in: só recebe quem ativou nas preferências de notificação.
+ALTER TABLE public.notification_preferences
+ADD COLUMN IF NOT EXISTS email_digest BOOLEAN NOT NULL DEFAULT false,
+-- Identifica o usuário no link de descadastro, que funciona sem login
+ADD COLUMN IF NOT EXISTS digest_token UUID NOT NULL DEFAULT gen_random_uuid(),
+-- Evita reenviar o resumo da mesma semana quando o envio é retomado
+ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE,
+-- Última tentativa, com ou sem sucesso: ordena a fila para que falhas não bloqueiem os demais
+ADD COLUMN IF NOT EXISTS last_digest_attempt_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_digest_token
+ON public.notification_preferences(digest_token);
+
+-- Token e controle de envio são definidos apenas pelo servidor
+CREATE OR REPLACE FUNCTION public.protect_digest_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.digest_token := gen_random_uuid();
+            NEW.last_digest_sent_at := NULL;
+            NEW.last_digest_attempt_at := NULL;
+        ELSE
+            NEW.digest_token := OLD.digest_token;
+            NEW.last_digest_sent_at := OLD.last_digest_sent_at;
+            NEW.last_digest_attempt_at := OLD.last_digest_attempt_at;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_digest_fields ON public.notification_preferences;
+CREATE TRIGGER protect_digest_fields
+BEFORE INSERT OR UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_digest_fields();
+
+-- Indica se o evento acontece no dia, com as mesmas regras de src/utils/eventRecurrence.ts:
+-- semanal pelos dias da semana a cada N semanas, mensal pelo N-ésimo (ou último) dia da semana
+-- a cada N meses, respeitando a data final e as exceções. Recorrência inválida vale como evento único.
+CREATE OR REPLACE FUNCTION public.event_occurs_on(event_date DATE, recurrence JSONB, on_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+    SELECT CASE
+        WHEN recurrence IS NULL OR coalesce(recurrence->>'frequency', '') NOT IN ('weekly', 'monthly') THEN
+            on_date = event_date
+        WHEN on_date < event_date
+            OR on_date > coalesce(nullif(recurrence->>'until', '')::date, on_date)
+            OR coalesce(recurrence->'exceptions', '[]'::jsonb) ? to_char(on_date, 'YYYY-MM-DD') THEN
+            false
+        WHEN recurrence->>'frequency' = 'weekly' THEN
+            -- Semanas de calendário (domingo a sábado) desde a primeira ocorrência
+            ((on_date - extract(dow FROM on_date)::int) - (event_date - extract(dow FROM event_date)::int)) / 7
+                % rule.every = 0
+            AND CASE
+                WHEN jsonb_typeof(recurrence->'weekdays') = 'array' AND jsonb_array_length(recurrence->'weekdays') > 0 THEN
+                    recurrence->'weekdays' @> to_jsonb(extract(dow FROM on_date)::int)
+                ELSE
+                    extract(dow FROM on_date) = extract(dow FROM event_date)
+            END
+        ELSE
+            ((extract(year FROM on_date) - extract(year FROM event_date)) * 12
+                + extract(month FROM on_date) - extract(month FROM event_date))::int % rule.every = 0
+            AND extract(dow FROM on_date)::int = coalesce((recurrence->>'weekday')::int, extract(dow FROM event_date)::int)
+            AND CASE rule.week
+                -- Último dia da semana do mês: uma semana depois já é o mês seguinte
+                WHEN -1 THEN extract(month FROM on_date + 7) <> extract(month FROM on_date)
+                ELSE ceil(extract(day FROM on_date) / 7)::int = rule.week
+            END
+    END
+    FROM (
+        SELECT
+            greatest(1, CASE WHEN recurrence->>'interval' ~ '^[0-9]+$' THEN (recurrence->>'interval')::int ELSE 1 END) AS every,
+            coalesce((recurrence->>'week_of_month')::int, least(4, ceil(extract(day FROM event_date) / 7))::int) AS week
+    ) rule;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_occurs_on(DATE, JSONB, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Conteúdo do resumo: notícias mais favoritadas da semana,
+-- eventos dos próximos 7 dias e lugares cadastrados na semana.
+-- Usada pela função weekly-digest com a service role.
+CREATE OR REPLACE FUNCTION public.get_weekly_digest(items_per_section INTEGER DEFAULT 5)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'news', coalesce((
+            SELECT jsonb_agg(item)
+            FROM (
+                SELECT n.id, n.title, left(n.content, 240) AS summary, n.images[1] AS image, n.date, c.name AS category
+                FROM public.news n
+                LEFT JOIN public.categories c ON c.id = n.category_id
+                LEFT JOIN public.favorites f ON f.news_id = n.id
+                WHERE n.date >= now() - interval '7 days'
+                GROUP BY n.id, c.name
+                ORDER BY count(f.news_id) DESC, n.date DESC
+                LIMIT items_per_section
+            ) item
+        ), '[]'::jsonb),
+        'events', coalesce((
+            SELECT jsonb_agg(item)
+            FROM (
+                SELECT *
+                FROM (
+                    -- Eventos recorrentes entram com a próxima ocorrência da semana em event_date
+                    SELECT DISTINCT ON (e.id)
+                        e.id, e.title, week.day AS event_date, e.event_time, e.location, coalesce(e.image, e.images[1]) AS image
+                    FROM public.events e
+                    CROSS JOIN LATERAL (
+                        SELECT (now() AT TIME ZONE 'America/Sao_Paulo')::date + offset_days AS day
+                        FROM generate_series(0, 7) offset_days
+                    ) week
+                    WHERE NOT e.is_hidden
+                    AND e.event_date <= (now() AT TIME ZONE 'America/Sao_Paulo')::date + 7
+                    AND (
+                        e.event_date >= (now() AT TIME ZONE 'America/Sao_Paulo')::date
+                        OR (
+                            e.recurrence IS NOT NULL
+                            AND (
+                                nullif(e.recurrence->>'until', '') IS NULL
+                                OR e.recurrence->>'until' >= to_char((now() AT TIME ZONE 'America/Sao_Paulo')::date, 'YYYY-MM-DD')
+                            )
+                        )
+                    )
+                    AND public.event_occurs_on(e.event_date, e.recurrence, week.day)
+                    ORDER BY e.id, week.day
+                ) occurrence
+                ORDER BY occurrence.event_date, occurrence.event_time
+                LIMIT items_per_section
+            ) item
+        ), '[]'::jsonb),
+        'places', coalesce((
+            SELECT jsonb_agg(item)
+            FROM (
+                SELECT p.id, p.name, left(p.description, 240) AS summary, p.city, coalesce(p.image, p.images[1]) AS image
+                FROM public.places p
+                WHERE NOT p.is_hidden
+                AND p.created_at >= now() - interval '7 days'
+                ORDER BY p.created_at DESC
+                LIMIT items_per_section
+            ) item
+        ), '[]'::jsonb)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_weekly_digest(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Envio semanal: segunda-feira das 8h às 20h59 (Brasília), a cada 5 minutos. Cada chamada
+-- envia um lote de até 200 e-mails e as seguintes continuam de onde pararam; chamadas
+-- sem ninguém pendente não enviam nada. Capacidade: ~31 mil inscritos por semana.
+-- A URL da função e o segredo compartilhado ficam no Vault:
+--   SELECT vault.create_secret('https://<projeto>.supabase.co/functions/v1/weekly-digest', 'weekly_digest_url');
+--   SELECT vault.create_secret('<mesmo valor de DIGEST_WEBHOOK_SECRET>', 'weekly_digest_secret');
+CREATE OR REPLACE FUNCTION public.dispatch_weekly_digest()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    function_url TEXT;
+    webhook_secret TEXT;
+BEGIN
+    SELECT decrypted_secret INTO function_url
+    FROM vault.decrypted_secrets WHERE name = 'weekly_digest_url';
+
+    SELECT decrypted_secret INTO webhook_secret
+    FROM vault.decrypted_secrets WHERE name = 'weekly_digest_secret';
+
+    IF function_url IS NULL OR webhook_secret IS NULL THEN
+        RAISE WARNING 'Resumo semanal não configurado no Vault';
+        RETURN;
+    END IF;
+
+    PERFORM net.http_post(
+        url := function_url,
+        body := '{}'::jsonb,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'x-digest-secret', webhook_secret
+        ),
+        timeout_milliseconds := 120000
+    );
+END;
+$$;
+
+-- Executada apenas pelo pg_cron, nunca pela API
+REVOKE EXECUTE ON FUNCTION public.dispatch_weekly_digest() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+    'weekly-digest',
+    '*/5 11-23 * * 1',
+    'SELECT public.dispatch_weekly_digest()'
+);
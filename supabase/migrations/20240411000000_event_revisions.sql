@@ -0,0 +1,31 @@
+-- Controle de revisão dos eventos para os calendários assinados (iCalendar):
+-- LAST-MODIFIED vem de updated_at e SEQUENCE é incrementado a cada edição
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+ADD COLUMN IF NOT EXISTS sequence INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.events
+SET updated_at = coalesce(created_at, timezone('utc'::text, now()));
+
+CREATE OR REPLACE FUNCTION public.bump_event_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    -- Salvar sem alterar nada não gera uma nova revisão
+    IF NEW IS NOT DISTINCT FROM OLD THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.updated_at := timezone('utc'::text, now());
+    NEW.sequence := OLD.sequence + 1;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_event_revision ON public.events;
+CREATE TRIGGER bump_event_revision
+BEFORE UPDATE ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_event_revision();
@@ -72,9 +72,31 @@ export default defineConfig(async ({ mode }) => {
         }
       ]
     },
+    workbox: {
+      // Handlers de Web Push (public/push-sw.js)
+      importScripts: ['push-sw.js'],
+      // Mantém os tiles do mapa já visitados disponíveis offline
+      runtimeCaching: [
+        {
+          urlPattern: /^https:\/\/tile\.openstreetmap\.org\/.*/i,
+          handler: 'CacheFirst' as const,
+          options: {
+            cacheName: 'map-tiles',
+            expiration: {
+              maxEntries: 1000,
+              maxAgeSeconds: 60 * 60 * 24 * 30
+            },
+            cacheableResponse: {
+              statuses: [0, 200]
+            }
+          }
+        }
+      ]
+    },
     devOptions: {
       enabled: true,
-      type: 'module',
+      // importScripts não funciona em service workers do tipo module
+      type: 'classic',
       navigateFallback: 'index.html'
     }
   };